@@ -0,0 +1,205 @@
+import fs from 'fs';
+import path from 'path';
+
+// Lifecycle functions forwarded by each kind of script, with their arguments.
+const LIFECYCLE = {
+  '.script': {
+    init: ['self'],
+    final: ['self'],
+    update: ['self', 'dt'],
+    fixed_update: ['self', 'dt'],
+    on_message: ['self', 'message_id', 'message', 'sender'],
+    on_input: ['self', 'action_id', 'action'],
+    on_reload: ['self'],
+  },
+  '.gui_script': {
+    init: ['self'],
+    final: ['self'],
+    update: ['self', 'dt'],
+    on_message: ['self', 'message_id', 'message', 'sender'],
+    on_input: ['self', 'action_id', 'action'],
+    on_reload: ['self'],
+  },
+  '.render_script': {
+    init: ['self'],
+    update: ['self', 'dt'],
+    on_message: ['self', 'message_id', 'message', 'sender'],
+    on_reload: ['self'],
+  },
+};
+
+const RESOURCES = {
+  AtlasResource: 'resource.atlas',
+  BufferResource: 'resource.buffer',
+  FontResource: 'resource.font',
+  MaterialResource: 'resource.material',
+  TextureResource: 'resource.texture',
+  TileSourceResource: 'resource.tile_source',
+};
+
+function calleeName(node) {
+  if (node.type === 'SequenceExpression') {
+    return calleeName(node.expressions[node.expressions.length - 1]);
+  } else if (node.type === 'MemberExpression') {
+    return node.property.name;
+  } else if (node.type === 'Identifier') {
+    return node.name;
+  }
+}
+
+function isGoCall(node, name) {
+  if (node.type !== 'CallExpression' || calleeName(node.callee) !== name) {
+    return false;
+  }
+  const callee = node.callee.type === 'SequenceExpression'
+    ? node.callee.expressions[node.callee.expressions.length - 1]
+    : node.callee;
+  return callee.type === 'MemberExpression' && calleeName(callee.object) === 'go';
+}
+
+// Translates the default value of a `go.property` call into its Lua equivalent.
+function toLua(node) {
+  switch (node.type) {
+    case 'Literal':
+      if (typeof node.value === 'number' || typeof node.value === 'boolean') {
+        return String(node.value);
+      } else if (typeof node.value === 'string') {
+        return JSON.stringify(node.value);
+      }
+      break;
+    case 'UnaryExpression':
+      if (node.operator === '-') {
+        return `-${toLua(node.argument)}`;
+      }
+      break;
+    case 'CallExpression': {
+      const name = calleeName(node.callee);
+      if (name === 'hash') {
+        return `hash(${node.arguments.map(toLua).join(', ')})`;
+      } else if (name === 'url') {
+        return `msg.url(${node.arguments.map(toLua).join(', ')})`;
+      }
+      break;
+    }
+    case 'NewExpression': {
+      const name = calleeName(node.callee);
+      const args = node.arguments.map(toLua).join(', ');
+      if (name === 'Vector3') {
+        return `vmath.vector3(${args})`;
+      } else if (name === 'Vector4') {
+        return `vmath.vector4(${args})`;
+      } else if (name === 'Quaternion') {
+        return `vmath.quat(${args})`;
+      } else if (RESOURCES[name]) {
+        return `${RESOURCES[name]}(${args})`;
+      }
+      break;
+    }
+  }
+  throw new Error(`unsupported go.property default value at offset ${node.start}`);
+}
+
+// Collects top level `go.property(name, value)` calls and the schemas passed to
+// `go.properties({ ... })` calls, whether used as a statement, assigned or extended
+// by a class. Classes transpiled to ES5 pass their base class to a function, so
+// the arguments of other top level calls are searched as well.
+function findProperties(ast) {
+  const properties = [];
+  const collect = (node) => {
+    if (!node) {
+      return;
+    } else if (isGoCall(node, 'property')) {
+      const [name, value] = node.arguments;
+      properties.push(`go.property(${toLua(name)}, ${toLua(value)})`);
+    } else if (isGoCall(node, 'properties') && node.arguments[0].type === 'ObjectExpression') {
+      for (const property of node.arguments[0].properties) {
+        const name = property.key.type === 'Identifier' ? property.key.name : property.key.value;
+        properties.push(`go.property(${JSON.stringify(name)}, ${toLua(property.value)})`);
+      }
+    } else if (node.type === 'CallExpression') {
+      node.arguments.forEach(collect);
+    } else if (node.type === 'ClassDeclaration' || node.type === 'ClassExpression') {
+      collect(node.superClass);
+    }
+  };
+  for (let statement of ast.body) {
+    if (statement.type === 'ExportNamedDeclaration' && statement.declaration) {
+      statement = statement.declaration;
+    }
+    if (statement.type === 'ExpressionStatement') {
+      collect(statement.expression);
+    } else if (statement.type === 'VariableDeclaration') {
+      statement.declarations.forEach((declaration) => collect(declaration.init));
+    } else if (statement.type === 'ClassDeclaration') {
+      collect(statement);
+    }
+  }
+  return properties;
+}
+
+function generate(type, loadPath, exports, properties) {
+  const lines = properties.length > 0 ? [...properties, ''] : [];
+  lines.push(`local script = duktape.load(${JSON.stringify(loadPath)})`);
+  for (const [name, args] of Object.entries(LIFECYCLE[type])) {
+    if (!exports.includes(name)) {
+      continue;
+    }
+    const call = `script:${name}(${args.join(', ')})`;
+    lines.push('');
+    lines.push(`function ${name}(${args.join(', ')})`);
+    lines.push(name === 'on_input' ? `\treturn ${call}` : `\t${call}`);
+    lines.push('end');
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Generates the Lua glue file of every entry whose name ends with the
+ * extension of a glue file, e.g. `src/spaceship.script.ts` gives
+ * `spaceship.script` and `src/main.render_script.ts` gives `main.render_script`.
+ * Other entries are left alone. The glue files are written to `dir`, which is
+ * outside the bundle so the editor can find them where the game objects refer to
+ * them, and a file is only rewritten when its content changes.
+ *
+ * The extension (`.script`, `.gui_script` or `.render_script`) decides which
+ * lifecycle functions may be forwarded; only the ones the entry exports are.
+ * Top level `go.property` and `go.properties` declarations are copied into
+ * the glue file so the editor sees the properties.
+ */
+export default function glue({ dir }) {
+  const properties = new Map();
+  let files = [];
+
+  return {
+    name: 'defold-glue',
+
+    moduleParsed(info) {
+      try {
+        properties.set(info.id, findProperties(info.ast));
+      } catch (e) {
+        this.error(`${info.id}: ${e.message}`);
+      }
+    },
+
+    generateBundle(options, bundle) {
+      files = [];
+      for (const chunk of Object.values(bundle)) {
+        if (chunk.type !== 'chunk' || !chunk.isEntry || !LIFECYCLE[path.extname(chunk.name)]) {
+          continue;
+        }
+        const loadPath = `res/${path.posix.join(options.dir, chunk.fileName)}`;
+        const content = generate(path.extname(chunk.name), loadPath, chunk.exports, properties.get(chunk.facadeModuleId) || []);
+        files.push({ file: path.join(dir, chunk.name), content });
+      }
+    },
+
+    writeBundle() {
+      for (const { file, content } of files) {
+        if (!fs.existsSync(file) || fs.readFileSync(file, 'utf8') !== content) {
+          fs.mkdirSync(path.dirname(file), { recursive: true });
+          fs.writeFileSync(file, content);
+        }
+      }
+    },
+  };
+}
@@ -3,6 +3,7 @@ import resolve from '@rollup/plugin-node-resolve';
 import commonjs from '@rollup/plugin-commonjs';
 import { getBabelInputPlugin, getBabelOutputPlugin } from '@rollup/plugin-babel';
 import { terser } from 'rollup-plugin-terser';
+import glue from './rollup-plugin-glue';
 
 const extensions = ['.js', '.ts'];
 
@@ -22,6 +23,7 @@ const config = {
       babelHelpers: 'bundled',
     }),
     getBabelOutputPlugin(),
+    glue({ dir: 'main' }),
   ],
 };
 
@@ -0,0 +1,67 @@
+import { Hash } from '@defold/core/lib/builtins';
+import * as render from '@defold/core/lib/render';
+import { hasheq } from '@defold/core/lib/support';
+import { get_config } from '@defold/core/lib/sys';
+import { Matrix4, Vector4 } from '@defold/core/lib/vmath';
+
+interface RenderData {
+  tile_pred: render.Predicate;
+  gui_pred: render.Predicate;
+  text_pred: render.Predicate;
+  particle_pred: render.Predicate;
+  clear_color: Vector4.Data;
+  view: Matrix4.Data;
+}
+
+export function init(self: RenderData) {
+  self.tile_pred = render.predicate(['tile']);
+  self.gui_pred = render.predicate(['gui']);
+  self.text_pred = render.predicate(['text']);
+  self.particle_pred = render.predicate(['particle']);
+
+  self.clear_color = new Vector4(
+    Number(get_config('render.clear_color_red', '0')),
+    Number(get_config('render.clear_color_green', '0')),
+    Number(get_config('render.clear_color_blue', '0')),
+    Number(get_config('render.clear_color_alpha', '0'))
+  ).data;
+  self.view = new Matrix4().data;
+}
+
+export function update(self: RenderData) {
+  render.set_depth_mask(true);
+  render.set_stencil_mask(0xff);
+  render.clear({ color: new Vector4(self.clear_color), depth: 1, stencil: 0 });
+
+  const width = render.get_window_width();
+  const height = render.get_window_height();
+  render.set_viewport(0, 0, width, height);
+  render.set_view(new Matrix4(self.view));
+
+  render.set_depth_mask(false);
+  render.disable_state(render.STATE.STATE_DEPTH_TEST);
+  render.disable_state(render.STATE.STATE_STENCIL_TEST);
+  render.enable_state(render.STATE.STATE_BLEND);
+  render.set_blend_func(render.BLEND.BLEND_SRC_ALPHA, render.BLEND.BLEND_ONE_MINUS_SRC_ALPHA);
+  render.disable_state(render.STATE.STATE_CULL_FACE);
+
+  render.set_projection(Matrix4.orthographic(0, render.get_width(), 0, render.get_height(), -1, 1));
+  render.draw(self.tile_pred);
+  render.draw(self.particle_pred);
+  render.draw_debug3d();
+
+  render.set_view(new Matrix4());
+  render.set_projection(Matrix4.orthographic(0, width, 0, height, -1, 1));
+  render.enable_state(render.STATE.STATE_STENCIL_TEST);
+  render.draw(self.gui_pred);
+  render.draw(self.text_pred);
+  render.disable_state(render.STATE.STATE_STENCIL_TEST);
+}
+
+export function on_message(self: RenderData, message_id: Hash, message: any) {
+  if (hasheq(message_id, 'clear_color')) {
+    self.clear_color = message.color;
+  } else if (hasheq(message_id, 'set_view_projection')) {
+    self.view = message.view;
+  }
+}
@@ -0,0 +1,51 @@
+import { go, Hash, hashes, msg, OnInputAction, print } from '@defold/core';
+import { Vector3, temp } from '@defold/core/lib/vmath';
+
+interface ShipData {
+  a: number;
+  velocity: Vector3.Data;
+  input: Vector3.Data;
+}
+
+export function init(self: ShipData) {
+  self.a = 114514;
+  self.velocity = new Vector3().data;
+  self.input = new Vector3().data;
+  msg.post('.', 'acquire_input_focus');
+}
+
+export function update(self: ShipData, dt: number) {
+  temp.reset();
+  const input = temp.vector3().setFrom(self.input);
+  const velocity = temp.vector3().setFrom(self.velocity);
+
+  if (input.length_sqr() > 1) {
+    input.normalizeInPlace();
+  }
+
+  const v = temp.vector3().setFrom(input).scaleInPlace(200 * dt).addInPlace(velocity);
+  const p = go.get_position();
+  go.set_position(p.addInPlace(velocity.addInPlace(v).scaleInPlace(dt * 0.5)));
+
+  self.velocity.x = v.x;
+  self.velocity.y = v.y;
+  self.input.x = 0;
+  self.input.y = 0;
+}
+
+export function on_input(self: ShipData, action_id: Hash, action: OnInputAction) {
+  if (action_id === undefined) {
+    return false;
+  }
+  hashes.switchHash(action_id, {
+    up: () => { self.input.y = 1; },
+    down: () => { self.input.y = -1; },
+    left: () => { self.input.x = -1; },
+    right: () => { self.input.x = 1; },
+    click: () => {
+      if (action.pressed) {
+        print('CLICK!');
+      }
+    },
+  });
+}
@@ -0,0 +1,363 @@
+import { Hash, hash, HashOrString, hash_to_hex } from './builtins';
+import { Messages, Url } from './msg';
+import * as timer from './timer';
+
+// Duktape has neither a Promise implementation nor an event loop, so promise
+// reactions are queued here and run by `flush`. Engine callbacks created by this
+// module flush right after settling a promise, so the code following an `await`
+// runs while the engine is still calling into the script that started it.
+
+type Microtask = () => void;
+
+const microtasks: Microtask[] = [];
+
+let flushing = false;
+
+/**
+ * Runs the queued promise reactions, including the ones queued while running.
+ * Reentrant calls return immediately, the outer call drains the queue.
+ */
+export function flush(): void {
+  if (flushing) {
+    return;
+  }
+  flushing = true;
+  try {
+    while (microtasks.length > 0) {
+      microtasks.shift()();
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+const PENDING = 0;
+const FULFILLED = 1;
+const REJECTED = 2;
+
+type Resolve<T> = (value?: T | PromiseLike<T>) => void;
+
+type Reject = (reason?: any) => void;
+
+function is_thenable(value: any): value is PromiseLike<any> {
+  return value !== null && (typeof value === 'object' || typeof value === 'function') && typeof value.then === 'function';
+}
+
+/**
+ * A Promises/A+ implementation whose reactions run from the microtask queue of this module.
+ * It is installed as the global `Promise`, so `async` functions use it as well.
+ */
+export class ScriptPromise<T> implements PromiseLike<T> {
+  private state = PENDING;
+
+  private value: any;
+
+  private reactions: Microtask[] = [];
+
+  constructor(executor: (resolve: Resolve<T>, reject: Reject) => void) {
+    let settled = false;
+    const resolve: Resolve<T> = (value) => {
+      if (!settled) {
+        settled = true;
+        this.resolve(value);
+      }
+    };
+    const reject: Reject = (reason) => {
+      if (!settled) {
+        settled = true;
+        this.settle(REJECTED, reason);
+      }
+    };
+    try {
+      executor(resolve, reject);
+    } catch (e) {
+      reject(e);
+    }
+  }
+
+  private resolve(value: any): void {
+    if (value === this) {
+      this.settle(REJECTED, new TypeError('a promise cannot be resolved with itself'));
+      return;
+    }
+    let then: any;
+    try {
+      then = is_thenable(value) ? value.then : undefined;
+    } catch (e) {
+      this.settle(REJECTED, e);
+      return;
+    }
+    if (then === undefined) {
+      this.settle(FULFILLED, value);
+      return;
+    }
+    microtasks.push(() => {
+      let called = false;
+      try {
+        then.call(
+          value,
+          (v: any) => { if (!called) { called = true; this.resolve(v); } },
+          (r: any) => { if (!called) { called = true; this.settle(REJECTED, r); } }
+        );
+      } catch (e) {
+        if (!called) {
+          called = true;
+          this.settle(REJECTED, e);
+        }
+      }
+    });
+  }
+
+  private settle(state: number, value: any): void {
+    this.state = state;
+    this.value = value;
+    this.reactions.forEach((reaction) => microtasks.push(reaction));
+    this.reactions = [];
+  }
+
+  then<R1 = T, R2 = never>(
+    onfulfilled?: ((value: T) => R1 | PromiseLike<R1>) | null,
+    onrejected?: ((reason: any) => R2 | PromiseLike<R2>) | null
+  ): ScriptPromise<R1 | R2> {
+    return new ScriptPromise<R1 | R2>((resolve, reject) => {
+      const reaction = () => {
+        const handler = this.state === FULFILLED ? onfulfilled : onrejected;
+        if (typeof handler !== 'function') {
+          (this.state === FULFILLED ? resolve : reject)(this.value);
+          return;
+        }
+        try {
+          resolve(handler(this.value));
+        } catch (e) {
+          reject(e);
+        }
+      };
+      if (this.state === PENDING) {
+        this.reactions.push(reaction);
+      } else {
+        microtasks.push(reaction);
+      }
+    });
+  }
+
+  catch<R = never>(onrejected?: ((reason: any) => R | PromiseLike<R>) | null): ScriptPromise<T | R> {
+    return this.then(undefined, onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): ScriptPromise<T> {
+    return this.then(
+      (value) => ScriptPromise.resolve(onfinally && onfinally()).then(() => value),
+      (reason) => ScriptPromise.resolve(onfinally && onfinally()).then(() => { throw reason; })
+    );
+  }
+
+  static resolve<T>(value?: T | PromiseLike<T>): ScriptPromise<T> {
+    if (value instanceof ScriptPromise) {
+      return value;
+    }
+    return new ScriptPromise<T>((resolve) => resolve(value));
+  }
+
+  static reject<T = never>(reason?: any): ScriptPromise<T> {
+    return new ScriptPromise<T>((resolve, reject) => reject(reason));
+  }
+
+  static all<T>(values: Array<T | PromiseLike<T>>): ScriptPromise<T[]> {
+    return new ScriptPromise<T[]>((resolve, reject) => {
+      const results: T[] = [];
+      let remaining = values.length;
+      if (remaining === 0) {
+        resolve(results);
+      }
+      values.forEach((value, index) => {
+        ScriptPromise.resolve(value).then((result) => {
+          results[index] = result;
+          if (--remaining === 0) {
+            resolve(results);
+          }
+        }, reject);
+      });
+    });
+  }
+
+  static race<T>(values: Array<T | PromiseLike<T>>): ScriptPromise<T> {
+    return new ScriptPromise<T>((resolve, reject) => {
+      values.forEach((value) => ScriptPromise.resolve(value).then(resolve, reject));
+    });
+  }
+}
+
+const global = Function('return this')();
+
+if (typeof global.Promise !== 'function') {
+  global.Promise = ScriptPromise;
+}
+
+/**
+ * Wraps an engine callback so the promise reactions it queues run before
+ * control returns to the engine.
+ *
+ * @param fn the callback to wrap
+ * @returns the wrapped callback
+ */
+export function callback<A extends any[]>(fn: (...args: A) => void): (...args: A) => void {
+  return (...args: A) => {
+    fn(...args);
+    flush();
+  };
+}
+
+/**
+ * Runs the queued promise reactions. Call it from the `update` function of every
+ * script that awaits, class-based scripts created with `script()` do it already.
+ */
+export function update(): void {
+  flush();
+}
+
+/**
+ * Waits for a number of seconds, measured by a `timer.delay` owned by the current script.
+ *
+ * @param seconds time to wait in seconds
+ * @returns a promise resolved once the time has elapsed
+ */
+export function waitSeconds(seconds: number): Promise<void> {
+  return new ScriptPromise<void>((resolve) => {
+    timer.delay(seconds, false, callback(() => resolve()));
+  });
+}
+
+/**
+ * Waits for a number of frames. The promise is resolved just before the
+ * `update` functions of the frame, `waitFrames(1)` resumes in the next frame.
+ *
+ * @param frames number of frames to wait
+ * @returns a promise resolved once the frames have passed
+ */
+export function waitFrames(frames: number): Promise<void> {
+  return new ScriptPromise<void>((resolve) => {
+    if (frames <= 0) {
+      resolve();
+      return;
+    }
+    let remaining = frames;
+    timer.delay(0, true, callback((self, handle) => {
+      if (--remaining === 0) {
+        timer.cancel(handle);
+        resolve();
+      }
+    }));
+  });
+}
+
+/**
+ * A message received by `awaitMessage`.
+ */
+export interface ReceivedMessage<T = any> {
+  /** id of the received message */
+  message_id: Hash;
+
+  /** a table containing the message data */
+  message: T;
+
+  /** address of the sender */
+  sender: Url;
+}
+
+type MessageWaiter = (message_id: Hash, message: any, sender: Url) => void;
+
+type AsyncSelf = { __async_id?: number };
+
+let next_async_id = 1;
+
+// The bundle is loaded once and shared by every instance of the script, so the
+// waiters are kept per instance, found again through an id stored in its `self` table.
+const message_waiters: { [instance: number]: { [id: string]: MessageWaiter[] } } = {};
+
+function instance_id(self: {}): number {
+  const table = self as AsyncSelf;
+  if (table.__async_id === undefined) {
+    table.__async_id = next_async_id++;
+  }
+  return table.__async_id;
+}
+
+/**
+ * Waits for a message declared in `Messages` to be received by a script instance.
+ * The script must forward its `on_message` calls to `async.on_message`,
+ * class-based scripts created with `script()` do it already.
+ *
+ * The id of the instance is stored in its `self` table,
+ * so `self.__async_id` must not be used by the script.
+ *
+ * @param self the `self` table of the instance receiving the message
+ * @param message_id id of the message to wait for
+ * @returns a promise resolved with the next message of that id received by the instance
+ */
+export function awaitMessage<K extends keyof Messages>(self: {}, message_id: K): Promise<ReceivedMessage<Messages[K]>>;
+
+/**
+ * Waits for a message that is not declared in `Messages` to be received by a script instance.
+ * The script must forward its `on_message` calls to `async.on_message`,
+ * class-based scripts created with `script()` do it already.
+ *
+ * The id of the instance is stored in its `self` table,
+ * so `self.__async_id` must not be used by the script.
+ *
+ * @param self the `self` table of the instance receiving the message
+ * @param message_id id of the message to wait for
+ * @returns a promise resolved with the next message of that id received by the instance
+ */
+export function awaitMessage(self: {}, message_id: HashOrString): Promise<ReceivedMessage>;
+
+export function awaitMessage(self: {}, message_id: HashOrString): Promise<ReceivedMessage> {
+  return new ScriptPromise<ReceivedMessage>((resolve) => {
+    const id = instance_id(self);
+    const key = hash_to_hex(hash(message_id));
+    const instance = message_waiters[id] || (message_waiters[id] = {});
+    const waiters = instance[key] || (instance[key] = []);
+    waiters.push((message_id, message, sender) => resolve({ message_id, message, sender }));
+  });
+}
+
+/**
+ * Resolves the promises returned by `awaitMessage` for a message received by a script instance.
+ * Call it from the `on_message` function of every script that awaits messages.
+ *
+ * @param self the `self` table of the instance which received the message
+ * @param message_id id of the received message
+ * @param message a table containing the message data
+ * @param sender address of the sender
+ * @returns whether a promise of the instance was waiting for the message
+ */
+export function on_message(self: {}, message_id: Hash, message: any, sender: Url): boolean {
+  const id = (self as AsyncSelf).__async_id;
+  const instance = id === undefined ? undefined : message_waiters[id];
+  const key = hash_to_hex(message_id);
+  const waiters = instance === undefined ? undefined : instance[key];
+  if (waiters === undefined) {
+    return false;
+  }
+  delete instance[key];
+  if (Object.keys(instance).length === 0) {
+    delete message_waiters[id];
+  }
+  waiters.forEach((waiter) => waiter(message_id, message, sender));
+  flush();
+  return true;
+}
+
+/**
+ * Forgets the messages a script instance waits for, as it will not receive them anymore.
+ * Call it from the `final` function of every script that awaits messages,
+ * class-based scripts created with `script()` do it already.
+ * The promises of the instance stay pending.
+ *
+ * @param self the `self` table of the finalized instance
+ */
+export function final(self: {}): void {
+  const id = (self as AsyncSelf).__async_id;
+  if (id !== undefined) {
+    delete message_waiters[id];
+  }
+}
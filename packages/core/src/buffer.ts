@@ -1,6 +1,7 @@
 // https://defold.com/ref/stable/buffer/
 
 import { HashOrString } from './builtins';
+import { register_wrapper, to_lua } from './lua';
 
 export enum CONSTANT {
   /** Float, single precision, 4 bytes */
@@ -63,13 +64,13 @@ export class Buffer {
    * @param element_count The number of elements the buffer should hold
    * @param declaration A table where each entry (table) describes a stream
    */
-  constructor(element_count: number, declaration: BufferDeclaration);
+  constructor(element_count: number, declaration: BufferDeclaration[]);
 
   constructor(buffer: BufferData);
 
-  constructor(arg0: number | BufferData, arg1?: BufferDeclaration) {
+  constructor(arg0: number | BufferData, arg1?: BufferDeclaration[]) {
     if (typeof arg0 === 'number')
-      this.data = lua.buffer.create(1, arg0, arg1);
+      this.data = lua.buffer.create(1, arg0, to_lua(arg1));
     else
       this.data = arg0;
   }
@@ -95,6 +96,8 @@ export class Buffer {
   }
 }
 
+register_wrapper(Buffer);
+
 /**
  * Copy all data streams from one buffer to another, element wise.
  *
@@ -108,7 +111,7 @@ export class Buffer {
  * @param count the number of elements to copy
  */
 export function copy_buffer(dst: Buffer, dstoffset: number, src: Buffer, srcoffset: number, count: number): void {
-  lua.buffer.copy_buffer(dst.data, dstoffset, src.data, srcoffset, count);
+  lua.buffer.copy_buffer(0, to_lua(dst), dstoffset, to_lua(src), srcoffset, count);
 }
 
 /**
@@ -124,5 +127,5 @@ export function copy_buffer(dst: Buffer, dstoffset: number, src: Buffer, srcoffs
  * @param count the number of elements to copy (measured in value type)
  */
 export function copy_stream(dst: BufferStream, dstoffset: number, src: BufferStream, srcoffset: number, count: number): void {
-  lua.buffer.copy_stream(dst, dstoffset, src, srcoffset, count);
+  lua.buffer.copy_stream(0, dst, dstoffset, src, srcoffset, count);
 }
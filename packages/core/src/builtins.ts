@@ -1,5 +1,7 @@
 // https://defold.com/ref/stable/builtins/
 
+import * as hashes from './hashes';
+
 export declare type Hash = {};
 
 export type HashOrString = string | Hash;
@@ -8,11 +10,13 @@ export type HashOrString = string | Hash;
  * All ids in the engine are represented as hashes,
  * so a string needs to be hashed before it can be compared with an id.
  *
+ * Hashes of strings are cached, see `hashes.get`.
+ *
  * @param s string to hash
  * @returns a hashed string
  */
 export function hash(s: HashOrString): Hash {
-  return lua.hash(1, s);
+  return typeof s === 'string' ? hashes.get(s) : s;
 }
 
 /**
@@ -23,7 +27,23 @@ export function hash(s: HashOrString): Hash {
  * @returns hex representation of the hash
  */
 export function hash_to_hex(h: Hash): string {
-  return lua.hash_to_hex(1, h);
+  return hashes.to_hex(h);
+}
+
+let debug: boolean | undefined;
+
+function readable(v: any): any {
+  if (lua.types.is_hash(1, v)) {
+    const name = hashes.reverse(v);
+    return name !== undefined ? `hash: [${name}]` : v;
+  } else if (Array.isArray(v)) {
+    return v.map(readable);
+  } else if (v !== null && typeof v === 'object' && Object.getPrototypeOf(v) === Object.prototype) {
+    const object = {};
+    Object.keys(v).forEach((key) => object[key] = readable(v[key]));
+    return object;
+  }
+  return v;
 }
 
 /**
@@ -32,8 +52,13 @@ export function hash_to_hex(h: Hash): string {
  * but will also recurse into tables and pretty print them.
  * There is a limit to how deep the function will recurse.
  *
+ * In debug builds, hashes of strings hashed from JS are printed with their original string.
+ *
  * @param v value to print
  */
 export function pprint(v: any): void {
-  lua.pprint(0, v);
+  if (debug === undefined) {
+    debug = lua.sys.get_engine_info(1).is_debug;
+  }
+  lua.pprint(0, debug ? readable(v) : v);
 }
@@ -0,0 +1,217 @@
+// https://defold.com/ref/stable/camera/
+
+import { get, get_world_transform, set } from './go';
+import { HashOrStringOrUrl, post } from './msg';
+import { Matrix4, Vector3, Vector4 } from './vmath';
+
+/**
+ * Post this message to a camera-component to activate it.
+ *
+ * Several cameras can be active at the same time, but only the camera that was last activated
+ * will be used for rendering. When the camera is deactivated (see `release_camera_focus`),
+ * the previously activated camera will again be used for rendering automatically.
+ *
+ * The reason it is called "camera focus" is the similarity to how acquiring input focus
+ * works (see `acquire_input_focus`).
+ *
+ * @param camera the camera component to activate
+ */
+export function acquire_focus(camera: HashOrStringOrUrl): void {
+  post(camera, 'acquire_camera_focus');
+}
+
+/**
+ * Post this message to a camera-component to deactivate it. The camera is then removed
+ * from the active cameras. See `acquire_camera_focus` for more information how the
+ * active cameras are used in rendering.
+ *
+ * @param camera the camera component to deactivate
+ */
+export function release_focus(camera: HashOrStringOrUrl): void {
+  post(camera, 'release_camera_focus');
+}
+
+/**
+ * The payload of the `set_camera` message.
+ */
+export interface SetCameraMessage {
+  /** aspect ratio of the screen (width divided by height) */
+  aspect_ratio: number;
+
+  /** field of view of the lens, measured as the angle in radians between the right and left edge */
+  fov: number;
+
+  /** position of the near clipping plane (distance from camera along relative z) */
+  near_z: number;
+
+  /** position of the far clipping plane (distance from camera along relative z) */
+  far_z: number;
+
+  /** set to use an orthographic projection */
+  orthographic_projection?: boolean;
+
+  /** zoom level when the camera is using an orthographic projection */
+  orthographic_zoom?: number;
+}
+
+/**
+ * Post this message to a camera-component to set its properties at run-time.
+ *
+ * @param camera the camera component to set properties for
+ * @param message the new camera properties
+ */
+export function set_camera(camera: HashOrStringOrUrl, message: SetCameraMessage): void {
+  post(camera, 'set_camera', message);
+}
+
+/**
+ * @param camera the camera component
+ * @returns the vertical field of view of the camera, in radians
+ */
+export function get_fov(camera: HashOrStringOrUrl): number {
+  return get(camera, 'fov');
+}
+
+/**
+ * @param camera the camera component
+ * @param fov the vertical field of view of the camera, in radians
+ */
+export function set_fov(camera: HashOrStringOrUrl, fov: number): void {
+  set(camera, 'fov', fov);
+}
+
+/**
+ * @param camera the camera component
+ * @returns the position of the near clipping plane
+ */
+export function get_near_z(camera: HashOrStringOrUrl): number {
+  return get(camera, 'near_z');
+}
+
+/**
+ * @param camera the camera component
+ * @param near_z the position of the near clipping plane
+ */
+export function set_near_z(camera: HashOrStringOrUrl, near_z: number): void {
+  set(camera, 'near_z', near_z);
+}
+
+/**
+ * @param camera the camera component
+ * @returns the position of the far clipping plane
+ */
+export function get_far_z(camera: HashOrStringOrUrl): number {
+  return get(camera, 'far_z');
+}
+
+/**
+ * @param camera the camera component
+ * @param far_z the position of the far clipping plane
+ */
+export function set_far_z(camera: HashOrStringOrUrl, far_z: number): void {
+  set(camera, 'far_z', far_z);
+}
+
+/**
+ * @param camera the camera component
+ * @returns the zoom level used with an orthographic projection
+ */
+export function get_orthographic_zoom(camera: HashOrStringOrUrl): number {
+  return get(camera, 'orthographic_zoom');
+}
+
+/**
+ * @param camera the camera component
+ * @param orthographic_zoom the zoom level used with an orthographic projection
+ */
+export function set_orthographic_zoom(camera: HashOrStringOrUrl, orthographic_zoom: number): void {
+  set(camera, 'orthographic_zoom', orthographic_zoom);
+}
+
+/**
+ * The view matrix of a camera is the inverse of the world transform
+ * of the game object the camera is attached to. The general inverse is used,
+ * so a scale on the game object or one of its parents is taken into account.
+ *
+ * @param camera the camera component
+ * @returns the view matrix of the camera
+ */
+export function view(camera: HashOrStringOrUrl): Matrix4 {
+  return get_world_transform(camera).inv();
+}
+
+/**
+ * Builds the perspective projection the camera renders with.
+ *
+ * @param camera the camera component
+ * @param width the width of the window
+ * @param height the height of the window
+ * @returns the perspective projection matrix of the camera
+ */
+export function perspective_projection(camera: HashOrStringOrUrl, width: number, height: number): Matrix4 {
+  return Matrix4.perspective(get_fov(camera), width / height, get_near_z(camera), get_far_z(camera));
+}
+
+/**
+ * Builds the orthographic projection the camera renders with, centered on the camera.
+ *
+ * @param camera the camera component
+ * @param width the width of the window
+ * @param height the height of the window
+ * @returns the orthographic projection matrix of the camera
+ */
+export function orthographic_projection(camera: HashOrStringOrUrl, width: number, height: number): Matrix4 {
+  const zoom = get_orthographic_zoom(camera);
+  const half_width = width / 2 / zoom;
+  const half_height = height / 2 / zoom;
+  return Matrix4.orthographic(-half_width, half_width, -half_height, half_height, get_near_z(camera), get_far_z(camera));
+}
+
+/**
+ * Converts screen coordinates (e.g. `action.screen_x` and `action.screen_y` in `on_input`)
+ * to a position in the world.
+ *
+ * @param x screen x coordinate
+ * @param y screen y coordinate
+ * @param view the view matrix of the camera
+ * @param projection the projection matrix of the camera
+ * @param width the width of the window
+ * @param height the height of the window
+ * @param depth depth in normalized device coordinates, -1 is the near clipping plane and 1 is the far clipping plane
+ * @returns the world position
+ */
+export function screen_to_world(
+  x: number,
+  y: number,
+  view: Matrix4,
+  projection: Matrix4,
+  width: number,
+  height: number,
+  depth: number = -1
+): Vector3 {
+  const inv_view_projection = Matrix4.mul(projection, view).inv();
+  const ndc = new Vector4(2 * x / width - 1, 2 * y / height - 1, depth, 1);
+  const world = Matrix4.mul(inv_view_projection, ndc);
+  return new Vector3(world.x / world.w, world.y / world.w, world.z / world.w);
+}
+
+/**
+ * Converts a world position to screen coordinates.
+ * The z component of the result is the depth in normalized device coordinates.
+ *
+ * @param position the world position
+ * @param view the view matrix of the camera
+ * @param projection the projection matrix of the camera
+ * @param width the width of the window
+ * @param height the height of the window
+ * @returns the screen position
+ */
+export function world_to_screen(position: Vector3, view: Matrix4, projection: Matrix4, width: number, height: number): Vector3 {
+  const view_projection = Matrix4.mul(projection, view);
+  const clip = Matrix4.mul(view_projection, new Vector4(position.x, position.y, position.z, 1));
+  return new Vector3(
+    (clip.x / clip.w + 1) / 2 * width,
+    (clip.y / clip.w + 1) / 2 * height,
+    clip.z / clip.w
+  );
+}
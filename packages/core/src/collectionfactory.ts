@@ -0,0 +1,119 @@
+// https://defold.com/ref/stable/collectionfactory/
+
+import { Hash } from './builtins';
+import { Properties } from './factory';
+import { hash_map_from_lua, to_lua } from './lua';
+import { HashOrStringOrUrl, Url } from './msg';
+import { SelfData } from './support';
+import { Quaternion, Vector3 } from './vmath';
+
+export enum STATUS {
+  /** loaded */
+  STATUS_LOADED = lua.collectionfactory.STATUS_LOADED,
+
+  /** loading */
+  STATUS_LOADING = lua.collectionfactory.STATUS_LOADING,
+
+  /** unloaded */
+  STATUS_UNLOADED = lua.collectionfactory.STATUS_UNLOADED,
+}
+
+/**
+ * A table of script property overrides, keyed by the id of the game object
+ * within the collection (e.g. `"/enemy"`).
+ */
+export type CollectionProperties = { [id: string]: Properties };
+
+/**
+ * The URL identifies the collectionfactory component that should do the spawning.
+ *
+ * Spawning is instant, but spawned game objects get their first update calls the following frame.
+ * The supplied parameters for position, rotation and scale will be applied to the whole collection
+ * when spawned.
+ *
+ * Script properties in the created game objects can be overridden through
+ * a properties-parameter table. The table should contain game object ids
+ * (hash) as keys and property tables as values to be used when initiating each
+ * spawned game object.
+ *
+ * See go.property for more information on script properties.
+ *
+ * The function returns a map that contains a key for each game object
+ * in the collection with the new instance id as value. The keys are the hex
+ * representation of the collection-local ids, e.g. `ids.get(hash_to_hex(hash('/ship')))`.
+ *
+ * Note that the spawned game objects may not be created immediately.
+ *
+ * Calling `collectionfactory.create` create on a collection factory that is marked as dynamic
+ * without having loaded resources using `collectionfactory.load` will synchronously load and
+ * create resources which may affect application performance.
+ *
+ * @param url the collection factory component to be used
+ * @param position position to assign to the newly spawned collection
+ * @param rotation rotation to assign to the newly spawned collection
+ * @param properties table of script properties to propagate to any new game object instances
+ * @param scale uniform scaling to apply to the newly spawned collection (must be greater than 0).
+ * @returns a map from the hex of the collection-local ids to the id:s of the spawned game objects
+ */
+export function create(
+  url: HashOrStringOrUrl,
+  position?: Vector3,
+  rotation?: Quaternion,
+  properties?: CollectionProperties,
+  scale?: number
+): Map<string, Hash> {
+  const ids = lua.collectionfactory.create(
+    1,
+    url,
+    to_lua(position),
+    to_lua(rotation),
+    to_lua(properties),
+    scale
+  );
+  return hash_map_from_lua<Hash>(ids, (id) => id);
+}
+
+/**
+ * This returns status of the collection factory.
+ *
+ * Calling this function when the factory is not marked as dynamic loading always returns
+ * `collectionfactory.STATUS_LOADED`.
+ *
+ * @param url the collection factory component to get status from
+ * @returns status of the collection factory component
+ */
+export function get_status(url?: HashOrStringOrUrl): STATUS {
+  return lua.collectionfactory.get_status(1, url);
+}
+
+/**
+ * @param self The current object.
+ * @param url url of the collection factory component
+ * @param result True if resources were loaded successfully
+ */
+type LoadCompleteFunction = (self: SelfData, url: Url, result: boolean) => void;
+
+/**
+ * Resources loaded are referenced by the collection factory component until the existing
+ * (parent) collection is destroyed or `collectionfactory.unload` is called.
+ *
+ * Calling this function when the factory is not marked as dynamic loading does nothing.
+ *
+ * @param url the collection factory component to load
+ * @param complete_function function to call when resources are loaded.
+ */
+export function load(url?: HashOrStringOrUrl, complete_function?: LoadCompleteFunction): void {
+  lua.collectionfactory.load(0, url, complete_function);
+}
+
+/**
+ * This decreases the reference count for each resource loaded with collectionfactory.load.
+ * If reference is zero, the resource is destroyed.
+ *
+ * Calling this function when the factory is not marked as dynamic loading does nothing.
+ *
+ * @param url the collection factory component to unload
+ */
+export function unload(url?: HashOrStringOrUrl): void {
+  lua.collectionfactory.unload(0, url);
+}
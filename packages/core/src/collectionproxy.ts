@@ -0,0 +1,146 @@
+// https://defold.com/ref/stable/collectionproxy/
+
+import { array_from_lua } from './lua';
+import { HashOrStringOrUrl, post } from './msg';
+
+/**
+ * Post this message to a collection-proxy-component to start the loading of the referenced collection.
+ * When the loading has completed, the message `proxy_loaded` will be sent back to the script.
+ *
+ * A loaded collection must be initialized (message `init`) and enabled (message `enable`)
+ * in order to be simulated and drawn.
+ *
+ * @param proxy the collection proxy to load
+ */
+export function load(proxy: HashOrStringOrUrl): void {
+  post(proxy, 'load');
+}
+
+/**
+ * Post this message to a collection-proxy-component to start background loading of the
+ * referenced collection. When the loading has completed, the message `proxy_loaded`
+ * will be sent back to the script.
+ *
+ * A loaded collection must be initialized (message `init`) and enabled (message `enable`)
+ * in order to be simulated and drawn.
+ *
+ * @param proxy the collection proxy to load
+ */
+export function async_load(proxy: HashOrStringOrUrl): void {
+  post(proxy, 'async_load');
+}
+
+/**
+ * Post this message to a collection-proxy-component to initialize the game objects and
+ * components in the referenced collection. Sending `enable` to an uninitialized collection
+ * proxy automatically initializes it. The `init` message simply provides a higher level
+ * of control.
+ *
+ * @param proxy the collection proxy to initialize
+ */
+export function init(proxy: HashOrStringOrUrl): void {
+  post(proxy, 'init');
+}
+
+/**
+ * Post this message to a collection-proxy-component to enable the referenced collection,
+ * which in turn enables the contained game objects and components. If the referenced
+ * collection was not initialized prior to this call, it will automatically be initialized.
+ *
+ * @param proxy the collection proxy to enable
+ */
+export function enable(proxy: HashOrStringOrUrl): void {
+  post(proxy, 'enable');
+}
+
+/**
+ * Post this message to a collection-proxy-component to disable the referenced collection,
+ * which in turn disables the contained game objects and components.
+ *
+ * @param proxy the collection proxy to disable
+ */
+export function disable(proxy: HashOrStringOrUrl): void {
+  post(proxy, 'disable');
+}
+
+/**
+ * Post this message to a collection-proxy-component to finalize the referenced collection,
+ * which in turn finalizes the contained game objects and components.
+ *
+ * @param proxy the collection proxy to finalize
+ */
+export function final(proxy: HashOrStringOrUrl): void {
+  post(proxy, 'final');
+}
+
+/**
+ * Post this message to a collection-proxy-component to start the unloading of the referenced
+ * collection. When the unloading has completed, the message `proxy_unloaded` will be sent
+ * back to the script.
+ *
+ * @param proxy the collection proxy to unload
+ */
+export function unload(proxy: HashOrStringOrUrl): void {
+  post(proxy, 'unload');
+}
+
+/**
+ * The payload of the `set_time_step` message.
+ */
+export interface SetTimeStepMessage {
+  /** time-step scaling factor */
+  factor: number;
+
+  /** time-step mode: 0 for continuous and 1 for discrete */
+  mode: number;
+}
+
+/**
+ * Post this message to a collection-proxy-component to modify the time-step used when
+ * updating the collection controlled by the proxy. The time-step is modified by a scaling
+ * `factor` and can be incremented either continuously or in discrete steps.
+ *
+ * The continuous mode can be used for slow-motion or fast-forward effects.
+ *
+ * The discrete mode is only useful when scaling the time-step to pass slower than real time
+ * (`factor` is below 1). The time-step will then be set to 0 for as many frames as the
+ * scaling demands and then take on the full real-time-step for one frame, to simulate
+ * pulses. E.g. if `factor` is set to `0.1` the time-step would be 0 for 9 frames, then be 1/60
+ * for one frame, 0 for 9 frames, and so on. The result in practice is that the game looks
+ * like it's updated at a much lower frequency than 60 Hz, which can be useful for debugging
+ * when each frame needs to be inspected.
+ *
+ * @param proxy the collection proxy to set the time-step for
+ * @param factor time-step scaling factor
+ * @param mode time-step mode: 0 for continuous and 1 for discrete
+ */
+export function set_time_step(proxy: HashOrStringOrUrl, factor: number, mode: number): void {
+  const message: SetTimeStepMessage = { factor, mode };
+  post(proxy, 'set_time_step', message);
+}
+
+/**
+ * The payload of the `proxy_loaded` message, sent back to the script that
+ * initiated a collection proxy load when the collection has been loaded.
+ * The sender of the message is the collection proxy.
+ */
+export declare type ProxyLoadedMessage = {};
+
+/**
+ * The payload of the `proxy_unloaded` message, sent back to the script that
+ * initiated a collection proxy unload when the collection has been unloaded.
+ * The sender of the message is the collection proxy.
+ */
+export declare type ProxyUnloadedMessage = {};
+
+/**
+ * Returns an array of resource hashes that haven't been loaded yet.
+ * This is used for LiveUpdate: the hashes are the `hexdigest` arguments
+ * expected by `resource.store_resource`.
+ *
+ * @param collectionproxy the collectionproxy to check for missing resources.
+ * @returns the missing resources
+ */
+export function missing_resources(collectionproxy: HashOrStringOrUrl): string[] {
+  return array_from_lua<string>(lua.collectionproxy.missing_resources(1, collectionproxy));
+}
@@ -0,0 +1,106 @@
+// https://defold.com/ref/stable/factory/
+
+import { Hash } from './builtins';
+import { PropertyType } from './go';
+import { to_lua } from './lua';
+import { HashOrStringOrUrl, Url } from './msg';
+import { SelfData } from './support';
+import { Quaternion, Vector3 } from './vmath';
+
+export enum STATUS {
+  /** loaded */
+  STATUS_LOADED = lua.factory.STATUS_LOADED,
+
+  /** loading */
+  STATUS_LOADING = lua.factory.STATUS_LOADING,
+
+  /** unloaded */
+  STATUS_UNLOADED = lua.factory.STATUS_UNLOADED,
+}
+
+/**
+ * A table of script properties to override, keyed by property name.
+ */
+export type Properties = { [name: string]: PropertyType };
+
+/**
+ * The URL identifies which factory should create the game object.
+ * If the game object is created inside of the frame (e.g. from an update callback),
+ * the game object will be created instantly, but none of its component will be updated
+ * in the same frame.
+ *
+ * Properties defined in scripts in the created game object can be overridden through the
+ * properties-parameter below. See go.property for more information on script properties.
+ *
+ * Calling `factory.create` on a factory that is marked as dynamic without having loaded
+ * resources using `factory.load` will synchronously load and create resources which may
+ * affect application performance.
+ *
+ * @param url the factory that should create a game object.
+ * @param position the position of the new game object, the position of the game object calling `factory.create()` is used by default, or if the value is `undefined`.
+ * @param rotation the rotation of the new game object, the rotation of the game object calling `factory.create()` is used by default, or if the value is `undefined`.
+ * @param properties the properties defined in a script attached to the new game object.
+ * @param scale the scale of the new game object (must be greater than 0), the scale of the game object containing the factory is used by default, or if the value is `undefined`
+ * @returns the global id of the spawned game object
+ */
+export function create(
+  url: HashOrStringOrUrl,
+  position?: Vector3,
+  rotation?: Quaternion,
+  properties?: Properties,
+  scale?: number | Vector3
+): Hash {
+  return lua.factory.create(
+    1,
+    url,
+    to_lua(position),
+    to_lua(rotation),
+    to_lua(properties),
+    to_lua(scale)
+  );
+}
+
+/**
+ * This returns status of the factory.
+ *
+ * Calling this function when the factory is not marked as dynamic loading always returns
+ * `factory.STATUS_LOADED`.
+ *
+ * @param url the factory component to get status from
+ * @returns status of the factory component
+ */
+export function get_status(url?: HashOrStringOrUrl): STATUS {
+  return lua.factory.get_status(1, url);
+}
+
+/**
+ * @param self The current object.
+ * @param url url of the factory component
+ * @param result True if resources were loaded successfully
+ */
+type LoadCompleteFunction = (self: SelfData, url: Url, result: boolean) => void;
+
+/**
+ * Resources are referenced by the factory component until the existing (parent) collection
+ * is destroyed or `factory.unload` is called.
+ *
+ * Calling this function when the factory is not marked as dynamic loading does nothing.
+ *
+ * @param url the factory component to load
+ * @param complete_function function to call when resources are loaded.
+ */
+export function load(url?: HashOrStringOrUrl, complete_function?: LoadCompleteFunction): void {
+  lua.factory.load(0, url, complete_function);
+}
+
+/**
+ * This decreases the reference count for each resource loaded with factory.load.
+ * If reference is zero, the resource is destroyed.
+ *
+ * Calling this function when the factory is not marked as dynamic loading does nothing.
+ *
+ * @param url the factory component to unload
+ */
+export function unload(url?: HashOrStringOrUrl): void {
+  lua.factory.unload(0, url);
+}
@@ -1,10 +1,12 @@
 // https://defold.com/ref/stable/go/
 
+import { callback, ScriptPromise } from './async';
 import { Hash, HashOrString } from './builtins';
+import { from_lua, to_lua } from './lua';
 import { HashOrStringOrUrl, Url } from './msg';
 import { ResourcePropertyBase, ResourcePropertyType } from './resource';
-import { SelfData } from './support';
-import { Matrix4, Quaternion, Vector3, Vector4 } from './vmath';
+import { Script, SelfData } from './support';
+import { Matrix4, Quaternion, Vector3, Vector4, VectorN } from './vmath';
 
 export enum EASING {
   /** in-back */
@@ -162,8 +164,80 @@ export enum PLAYBACK {
 type CompleteFunction = (self: SelfData, url: Url, property: Hash) => void;
 
 /**
- * This is only supported for numerical properties.
- * If the node property is already being animated,
+ * A custom easing curve: either the samples of the curve, from the start to the end
+ * of the animation, or an easing function mapping time in [0, 1] to progress.
+ */
+export type EasingCurve = number[] | VectorN | ((t: number) => number);
+
+/**
+ * The number of samples taken from an easing function.
+ */
+const EASING_CURVE_SAMPLES = 64;
+
+function to_lua_easing(easing: EASING | EasingCurve): any {
+  if (Array.isArray(easing)) {
+    return to_lua(new VectorN(easing));
+  } else if (typeof easing === 'function') {
+    const samples = new VectorN(EASING_CURVE_SAMPLES);
+    for (let i = 0; i < EASING_CURVE_SAMPLES; i++) {
+      samples.set(i, easing(i / (EASING_CURVE_SAMPLES - 1)));
+    }
+    return to_lua(samples);
+  }
+  return to_lua(easing);
+}
+
+/**
+ * The value types of the transform properties of a game object.
+ */
+export interface AnimatableProperties {
+  position: Vector3;
+  scale: Vector3 | number;
+  euler: Vector3;
+  rotation: Quaternion;
+}
+
+/**
+ * If the property is already being animated,
+ * that animation will be canceled and replaced by the new one.
+ *
+ * If a complete_function (lua function) is specified,
+ * that function will be called when the animation has completed.
+ * By starting a new animation in that function,
+ * several animations can be sequenced together.
+ * See the examples for more information.
+ *
+ * If you call go.animate() from a game object's final() function,
+ * any passed complete_function will be ignored and never called upon animation completion.
+ *
+ * See the properties guide for which properties can be animated
+ * and the animation guide for how to animate them.
+ *
+ * @param url url of the game object or component having the property
+ * @param property the transform property to animate, the target value is checked against its type
+ * @param playback playback mode of the animation
+ * @param to target property value
+ * @param easing easing to use during animation. Either specify a constant, see the animation guide for a complete list, or a custom curve
+ * @param duration duration of the animation in seconds
+ * @param delay delay before the animation starts in seconds
+ * @param complete_function optional function to call when the animation has completed
+ */
+export function animate<P extends keyof AnimatableProperties>(
+  url: HashOrStringOrUrl,
+  property: P,
+  playback: PLAYBACK,
+  to: AnimatableProperties[P],
+  easing: EASING | EasingCurve,
+  duration: number,
+  delay?: number,
+  complete_function?: CompleteFunction
+): void;
+
+/**
+ * This is supported for numerical, vector and quaternion properties.
+ * Components of composite properties can be animated on their own,
+ * e.g. "position.x" or "tint.w".
+ * If the property is already being animated,
  * that animation will be canceled and replaced by the new one.
  *
  * If a complete_function (lua function) is specified,
@@ -182,22 +256,122 @@ type CompleteFunction = (self: SelfData, url: Url, property: Hash) => void;
  * @param property id of the property to animate
  * @param playback playback mode of the animation
  * @param to target property value
- * @param easing easing to use during animation. Either specify a constant, see the animation guide for a complete list, or a vmath.vector with a curve
+ * @param easing easing to use during animation. Either specify a constant, see the animation guide for a complete list, or a custom curve
  * @param duration duration of the animation in seconds
  * @param delay delay before the animation starts in seconds
  * @param complete_function optional function to call when the animation has completed
  */
+export function animate<P extends HashOrString>(
+  url: HashOrStringOrUrl,
+  property: P extends keyof AnimatableProperties ? never : P,
+  playback: PLAYBACK,
+  to: number | Vector3 | Vector4 | Quaternion,
+  easing: EASING | EasingCurve,
+  duration: number,
+  delay?: number,
+  complete_function?: CompleteFunction
+): void;
+
 export function animate(
   url: HashOrStringOrUrl,
   property: HashOrString,
   playback: PLAYBACK,
-  to: number,
-  easing: EASING,
+  to: number | Vector3 | Vector4 | Quaternion,
+  easing: EASING | EasingCurve,
   duration: number,
   delay?: number,
   complete_function?: CompleteFunction
 ): void {
-  lua.go.animate(0, url, property, playback, to, easing, duration, delay, complete_function);
+  lua.go.animate(
+    0,
+    url,
+    property,
+    playback,
+    to_lua(to),
+    to_lua_easing(easing),
+    duration,
+    delay,
+    complete_function === undefined ? undefined : callback(complete_function)
+  );
+}
+
+/**
+ * Animates a property like `go.animate`, and returns a promise resolved when the
+ * animation has completed, so a sequence of animations can be awaited.
+ *
+ * The promise is only settled by the completion of the animation. It stays pending
+ * if the animation is canceled with `go.cancel_animations`, replaced by another
+ * animation of the same property, or still running when the game object is deleted,
+ * so only await animations that run to completion. Looping playbacks never complete
+ * and are rejected.
+ *
+ * @param url url of the game object or component having the property
+ * @param property id of the property to animate
+ * @param playback playback mode of the animation, one of the `PLAYBACK_ONCE_*` modes
+ * @param to target property value
+ * @param easing easing to use during animation. Either specify a constant, see the animation guide for a complete list, or a custom curve
+ * @param duration duration of the animation in seconds
+ * @param delay delay before the animation starts in seconds
+ * @returns a promise resolved when the animation has completed
+ */
+export function animate_async<P extends keyof AnimatableProperties>(
+  url: HashOrStringOrUrl,
+  property: P,
+  playback: PLAYBACK,
+  to: AnimatableProperties[P],
+  easing: EASING | EasingCurve,
+  duration: number,
+  delay?: number
+): Promise<void>;
+
+/**
+ * Animates a property like `go.animate`, and returns a promise resolved when the
+ * animation has completed, so a sequence of animations can be awaited.
+ *
+ * The promise is only settled by the completion of the animation. It stays pending
+ * if the animation is canceled with `go.cancel_animations`, replaced by another
+ * animation of the same property, or still running when the game object is deleted,
+ * so only await animations that run to completion. Looping playbacks never complete
+ * and are rejected.
+ *
+ * @param url url of the game object or component having the property
+ * @param property id of the property to animate
+ * @param playback playback mode of the animation, one of the `PLAYBACK_ONCE_*` modes
+ * @param to target property value
+ * @param easing easing to use during animation. Either specify a constant, see the animation guide for a complete list, or a custom curve
+ * @param duration duration of the animation in seconds
+ * @param delay delay before the animation starts in seconds
+ * @returns a promise resolved when the animation has completed
+ */
+export function animate_async<P extends HashOrString>(
+  url: HashOrStringOrUrl,
+  property: P extends keyof AnimatableProperties ? never : P,
+  playback: PLAYBACK,
+  to: number | Vector3 | Vector4 | Quaternion,
+  easing: EASING | EasingCurve,
+  duration: number,
+  delay?: number
+): Promise<void>;
+
+export function animate_async(
+  url: HashOrStringOrUrl,
+  property: HashOrString,
+  playback: PLAYBACK,
+  to: number | Vector3 | Vector4 | Quaternion,
+  easing: EASING | EasingCurve,
+  duration: number,
+  delay?: number
+): Promise<void> {
+  if (
+    playback === PLAYBACK.PLAYBACK_LOOP_FORWARD ||
+    playback === PLAYBACK.PLAYBACK_LOOP_BACKWARD ||
+    playback === PLAYBACK.PLAYBACK_LOOP_PINGPONG
+  ) {
+    return ScriptPromise.reject(new RangeError('looping animations never complete'));
+  }
+  return new ScriptPromise<void>((resolve) => {
+    lua.go.animate(0, url, property, playback, to_lua(to), to_lua_easing(easing), duration, delay, callback(() => resolve()));
+  });
 }
 
 /**
@@ -231,13 +405,7 @@ export function cancel_animations(url: HashOrStringOrUrl, property: HashOrString
  * @param recursive optional boolean, set to true to recursively delete child hiearchy in child to parent order
  */
 export function delete_(id: HashOrStringOrUrl | Array<HashOrStringOrUrl>, recursive?: boolean): void {
-  if (Array.isArray(id)) {
-    const table = {};
-    id.forEach((value, index) => table[index + 1] = value);
-    lua.go['delete'](0, table, recursive);
-  } else {
-    lua.go['delete'](0, id, recursive);
-  }
+  lua.go['delete'](0, to_lua(id), recursive);
 }
 
 /**
@@ -246,7 +414,7 @@ export function delete_(id: HashOrStringOrUrl | Array<HashOrStringOrUrl>, recurs
  * @returns the value of the specified property
  */
 export function get(url: HashOrStringOrUrl, property: HashOrString): any {
-  return lua.go.get(1, url, property);
+  return from_lua(lua.go.get(1, url, property));
 }
 
 /**
@@ -360,7 +528,7 @@ export function get_world_transform(id?: HashOrStringOrUrl): Matrix4 {
   return new Matrix4(lua.go.get_world_transform(1, id));
 }
 
-export type PropertyType = number | Hash | Url | Vector3 | Vector4 | Quaternion | ResourcePropertyType;
+export type PropertyType = number | boolean | Hash | Url | Vector3 | Vector4 | Quaternion | ResourcePropertyType;
 
 /**
  * This function defines a property which can then be used in the script through the
@@ -372,11 +540,87 @@ export type PropertyType = number | Hash | Url | Vector3 | Vector4 | Quaternion
  * @param value default value of the property. In the case of a url, only the empty constructor msg.url() is allowed. In the case of a resource one of the resource constructors (eg resource.atlas(), resource.font() etc) is expected.
  */
 export function property(name: string, value: PropertyType): void {
-  if (value instanceof ResourcePropertyBase || value instanceof Vector3 || value instanceof Vector4 || value instanceof Quaternion) {
-    lua.go.property(0, name, value.data);
-  } else {
-    lua.go.property(0, name, value);
+  lua.go.property(0, name, to_lua(value));
+}
+
+/**
+ * A set of script properties, keyed by property name, with their default values.
+ */
+export type PropertySchema = { [name: string]: PropertyType };
+
+/**
+ * The values of the properties declared by a schema, as read from `self`.
+ * Resource properties are read as the hash of the resource path.
+ */
+export type Properties<S extends PropertySchema> = {
+  [K in keyof S]:
+    S[K] extends Vector3 | Vector4 | Quaternion ? S[K] :
+    S[K] extends ResourcePropertyBase ? Hash :
+    S[K] extends boolean ? boolean :
+    S[K] extends number ? number :
+    S[K];
+};
+
+function properties_view<S extends PropertySchema>(schema: S, self: SelfData): Properties<S> {
+  const view = {} as Properties<S>;
+  Object.keys(schema).forEach((name) => {
+    const value = schema[name];
+    Object.defineProperty(view, name, {
+      enumerable: true,
+      get() {
+        if (value instanceof Vector3) {
+          return new Vector3(self[name]);
+        } else if (value instanceof Vector4) {
+          return new Vector4(self[name]);
+        } else if (value instanceof Quaternion) {
+          return new Quaternion(self[name]);
+        } else {
+          return self[name];
+        }
+      },
+      set(v) {
+        self[name] = to_lua(v);
+      },
+    });
+  });
+  return view;
+}
+
+/**
+ * Declares every property of the schema with `go.property`, so this has the same
+ * restrictions: it can only be called outside any callback-functions like init and update.
+ * When the call is the base class of a top level class, or is otherwise made at the top
+ * level of a script, the script glue generator copies the declarations into the glue file
+ * so they are visible in the editor.
+ *
+ * The returned class is a `Script` whose `self` is typed by the schema.
+ * Vector and quaternion values are wrapped into `Vector3`, `Vector4` and `Quaternion`
+ * when read and unwrapped when written.
+ *
+ *     class Spaceship extends go.properties({ speed: 200, target: new Vector3() }) {
+ *       update(dt: number) {
+ *         const { speed, target } = this.self;
+ *       }
+ *     }
+ *
+ *     export const { init, update } = script(Spaceship);
+ *
+ * @param schema the properties to declare and their default values
+ * @returns a base class for a class-based script having the properties
+ */
+export function properties<S extends PropertySchema>(schema: S): abstract new () => Script<Properties<S>> {
+  Object.keys(schema).forEach((name) => property(name, schema[name]));
+  abstract class PropertiesScript extends Script<Properties<S>> {
+    constructor() {
+      super();
+      let view: Properties<S>;
+      Object.defineProperty(this, 'self', {
+        get: () => view,
+        set: (self: SelfData) => view = properties_view(schema, self),
+      });
+    }
   }
+  return PropertiesScript;
 }
 
 /**
@@ -385,7 +629,7 @@ export function property(name: string, value: PropertyType): void {
  * @param value the value to set
  */
 export function set(id: HashOrStringOrUrl, property: HashOrString, value: any): void {
-  lua.go.set(0, id, property, value);
+  lua.go.set(0, id, property, to_lua(value));
 }
 /**
  * Sets the parent for a game object instance.
@@ -412,7 +656,7 @@ export function set_parent(id?: HashOrStringOrUrl, parent_id?: HashOrStringOrUrl
  * @param id optional id of the game object instance to set the position for, by default the instance of the calling script
  */
 export function set_position(position: Vector3, id?: HashOrStringOrUrl): void {
-  lua.go.set_position(0, position.data, id);
+  lua.go.set_position(0, to_lua(position), id);
 }
 
 /**
@@ -422,7 +666,7 @@ export function set_position(position: Vector3, id?: HashOrStringOrUrl): void {
  * @param id optional id of the game object instance to set the rotation for, by default the instance of the calling script
  */
 export function set_rotation(rotation: Quaternion, id?: HashOrStringOrUrl): void {
-  lua.go.set_rotation(0, rotation.data, id);
+  lua.go.set_rotation(0, to_lua(rotation), id);
 }
 
 /**
@@ -435,9 +679,5 @@ export function set_rotation(rotation: Quaternion, id?: HashOrStringOrUrl): void
  * @param id optional id of the game object instance to set the scale for, by default the instance of the calling script
  */
 export function set_scale(scale: number | Vector3, id?: HashOrStringOrUrl): void {
-  if (typeof scale === 'number') {
-    lua.go.set_scale(0, scale, id);
-  } else {
-    lua.go.set_scale(0, scale.data, id);
-  }
+  lua.go.set_scale(0, to_lua(scale), id);
 }
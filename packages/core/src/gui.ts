@@ -0,0 +1,366 @@
+// https://defold.com/ref/stable/gui/
+
+import { Hash, HashOrString } from './builtins';
+import { EASING, PLAYBACK } from './go';
+import { hash_map_from_lua, register_wrapper, to_lua } from './lua';
+import { SelfData } from './support';
+import { Vector3, Vector4 } from './vmath';
+
+// The gui module is only registered for GUI scripts, so fall back to an empty
+// table to keep this module importable from game object scripts.
+const constants = lua.gui || {};
+
+export enum ADJUST {
+  /** Adjust mode is used when the screen resolution differs from the project settings. The fit mode ensures that the entire node is visible in the adjusted gui scene. */
+  ADJUST_FIT = constants.ADJUST_FIT,
+
+  /** Adjust mode is used when the screen resolution differs from the project settings. The stretch mode ensures that the node is displayed as is in the adjusted gui scene, which might scale it non-uniformally. */
+  ADJUST_STRETCH = constants.ADJUST_STRETCH,
+
+  /** Adjust mode is used when the screen resolution differs from the project settings. The zoom mode ensures that the node fills its entire area and might make the node exceed it. */
+  ADJUST_ZOOM = constants.ADJUST_ZOOM,
+}
+
+export enum BLEND {
+  /** additive blending */
+  BLEND_ADD = constants.BLEND_ADD,
+
+  /** additive alpha blending */
+  BLEND_ADD_ALPHA = constants.BLEND_ADD_ALPHA,
+
+  /** alpha blending */
+  BLEND_ALPHA = constants.BLEND_ALPHA,
+
+  /** multiply blending */
+  BLEND_MULT = constants.BLEND_MULT,
+}
+
+export enum PIVOT {
+  /** center pivot */
+  PIVOT_CENTER = constants.PIVOT_CENTER,
+
+  /** east pivot */
+  PIVOT_E = constants.PIVOT_E,
+
+  /** north pivot */
+  PIVOT_N = constants.PIVOT_N,
+
+  /** north-east pivot */
+  PIVOT_NE = constants.PIVOT_NE,
+
+  /** north-west pivot */
+  PIVOT_NW = constants.PIVOT_NW,
+
+  /** south pivot */
+  PIVOT_S = constants.PIVOT_S,
+
+  /** south-east pivot */
+  PIVOT_SE = constants.PIVOT_SE,
+
+  /** south-west pivot */
+  PIVOT_SW = constants.PIVOT_SW,
+
+  /** west pivot */
+  PIVOT_W = constants.PIVOT_W,
+}
+
+export enum PROPERTY {
+  /** color property */
+  PROP_COLOR = constants.PROP_COLOR,
+
+  /** euler property */
+  PROP_EULER = constants.PROP_EULER,
+
+  /** fill_angle property */
+  PROP_FILL_ANGLE = constants.PROP_FILL_ANGLE,
+
+  /** inner_radius property */
+  PROP_INNER_RADIUS = constants.PROP_INNER_RADIUS,
+
+  /** outline color property */
+  PROP_OUTLINE = constants.PROP_OUTLINE,
+
+  /** position property */
+  PROP_POSITION = constants.PROP_POSITION,
+
+  /** rotation property */
+  PROP_ROTATION = constants.PROP_ROTATION,
+
+  /** scale property */
+  PROP_SCALE = constants.PROP_SCALE,
+
+  /** shadow color property */
+  PROP_SHADOW = constants.PROP_SHADOW,
+
+  /** size property */
+  PROP_SIZE = constants.PROP_SIZE,
+
+  /** slice9 property */
+  PROP_SLICE9 = constants.PROP_SLICE9,
+}
+
+export class Node {
+  data: Node.Data;
+
+  /**
+   * Wraps a node handle, as returned by the engine.
+   *
+   * @param data node handle
+   */
+  constructor(data: Node.Data) {
+    this.data = data;
+  }
+
+  /** the id of the node */
+  get id(): Hash { return lua.gui.get_id(1, this.data); }
+  set id(id: HashOrString) { lua.gui.set_id(0, this.data, id); }
+
+  /** the node position */
+  get position(): Vector3 { return new Vector3(lua.gui.get_position(1, this.data)); }
+  set position(position) { lua.gui.set_position(0, this.data, to_lua(position)); }
+
+  /** the node scale */
+  get scale(): Vector3 { return new Vector3(lua.gui.get_scale(1, this.data)); }
+  set scale(scale) { lua.gui.set_scale(0, this.data, to_lua(scale)); }
+
+  /** the node color */
+  get color(): Vector4 { return new Vector4(lua.gui.get_color(1, this.data)); }
+  set color(color) { lua.gui.set_color(0, this.data, to_lua(color)); }
+
+  /** the node size */
+  get size(): Vector3 { return new Vector3(lua.gui.get_size(1, this.data)); }
+  set size(size) { lua.gui.set_size(0, this.data, to_lua(size)); }
+
+  /** the text of a text node */
+  get text(): string { return lua.gui.get_text(1, this.data); }
+  set text(text) { lua.gui.set_text(0, this.data, text); }
+
+  /** the pivot of the node, the point about which the node rotates and scales */
+  get pivot(): PIVOT { return lua.gui.get_pivot(1, this.data); }
+  set pivot(pivot) { lua.gui.set_pivot(0, this.data, pivot); }
+
+  /** the adjust mode of the node, used when the screen resolution differs from the project settings */
+  get adjust_mode(): ADJUST { return lua.gui.get_adjust_mode(1, this.data); }
+  set adjust_mode(adjust_mode) { lua.gui.set_adjust_mode(0, this.data, adjust_mode); }
+
+  /** the blend mode of the node */
+  get blend_mode(): BLEND { return lua.gui.get_blend_mode(1, this.data); }
+  set blend_mode(blend_mode) { lua.gui.set_blend_mode(0, this.data, blend_mode); }
+
+  /** the id of the layer the node is assigned to, or an empty hash if none */
+  get layer(): Hash { return lua.gui.get_layer(1, this.data); }
+  set layer(layer: HashOrString) { lua.gui.set_layer(0, this.data, layer); }
+
+  /** the id of the font used by a text node */
+  get font(): Hash { return lua.gui.get_font(1, this.data); }
+  set font(font: HashOrString) { lua.gui.set_font(0, this.data, font); }
+
+  /** whether the node is enabled; disabled nodes are not rendered or animated */
+  get enabled(): boolean { return lua.gui.is_enabled(1, this.data); }
+  set enabled(enabled) { lua.gui.set_enabled(0, this.data, enabled); }
+
+  /** the parent of the node, or undefined if the node is a root node */
+  get parent(): Node | undefined {
+    const parent = lua.gui.get_parent(1, this.data);
+    return parent === undefined ? undefined : new Node(parent);
+  }
+  set parent(parent) { lua.gui.set_parent(0, this.data, to_lua(parent)); }
+
+  /**
+   * Deletes the node and all of its children.
+   */
+  delete(): void {
+    lua.gui.delete_node(0, this.data);
+  }
+}
+
+export namespace Node {
+  export declare type Data = {};
+}
+
+register_wrapper(Node);
+
+/**
+ * @param {SelfData} self The current object.
+ * @param {Node} node The node that was animated.
+ */
+type CompleteFunction = (self: SelfData, node: Node) => void;
+
+/**
+ * This starts an animation of a node property according to the specified parameters.
+ * If the node property is already being animated, that animation will be canceled and
+ * replaced by the new one. Note however that several different node properties
+ * can be animated simultaneously. Use `gui.cancel_animation` to stop the animation
+ * before it has completed.
+ *
+ * Composite properties of type vector3, vector4 or quaternion also expose their
+ * sub-components (x, y, z and w). You can address the components individually by
+ * suffixing the name with a dot '.' and the name of the component.
+ * For instance, "position.x" (the position x coordinate) or "color.w" (the color alpha value).
+ *
+ * If a complete_function (lua function) is specified,
+ * that function will be called when the animation has completed.
+ * By starting a new animation in that function, several animations can be sequenced together.
+ *
+ * @param node node to animate
+ * @param property property to animate
+ * @param to target property value
+ * @param easing easing to use during animation. Either specify one of the gui.EASING_* constants or provide a vector with a custom curve.
+ * @param duration duration of the animation in seconds.
+ * @param delay delay before the animation starts in seconds.
+ * @param complete_function function to call when the animation has completed
+ * @param playback playback mode
+ */
+export function animate(
+  node: Node,
+  property: HashOrString | PROPERTY,
+  to: number | Vector3 | Vector4,
+  easing: EASING,
+  duration: number,
+  delay?: number,
+  complete_function?: CompleteFunction,
+  playback?: PLAYBACK
+): void {
+  lua.gui.animate(
+    0,
+    to_lua(node),
+    property,
+    to_lua(to),
+    easing,
+    duration,
+    delay,
+    complete_function === undefined ? undefined : (self: SelfData, node: Node.Data) => complete_function(self, new Node(node)),
+    playback
+  );
+}
+
+/**
+ * If one or more animations of the specified node is currently running (started by `gui.animate`),
+ * they will immediately be canceled.
+ *
+ * @param node node that should have its animation canceled
+ * @param property property for which the animation should be canceled
+ */
+export function cancel_animation(node: Node, property: HashOrString | PROPERTY): void {
+  lua.gui.cancel_animation(0, to_lua(node), property);
+}
+
+/**
+ * Make a clone instance of a node and all its children.
+ * Use `gui.clone` to clone a node excluding its children.
+ *
+ * The cloned nodes are keyed by the hex representation of the id of the node
+ * they were cloned from, e.g. `nodes.get(hash_to_hex(hash('box')))`.
+ *
+ * @param node root node to clone
+ * @returns a map from the hex of the original node ids to the corresponding cloned nodes
+ */
+export function clone_tree(node: Node): Map<string, Node> {
+  return hash_map_from_lua(lua.gui.clone_tree(1, to_lua(node)), (node) => new Node(node));
+}
+
+/**
+ * Make a clone instance of a node.
+ * This function does not clone the supplied node's children nodes.
+ * Use `gui.clone_tree` for that purpose.
+ *
+ * @param node node to clone
+ * @returns the cloned node
+ */
+export function clone(node: Node): Node {
+  return new Node(lua.gui.clone(1, to_lua(node)));
+}
+
+/**
+ * Retrieves the node with the specified id.
+ *
+ * @param id id of the node to retrieve
+ * @returns a new node instance
+ */
+export function get_node(id: HashOrString): Node {
+  return new Node(lua.gui.get_node(1, id));
+}
+
+/**
+ * This returns the font resource path of the font with the given id.
+ *
+ * @param font_name font of which to get the path hash
+ * @returns path hash to resource
+ */
+export function get_font_resource(font_name: HashOrString): Hash {
+  return lua.gui.get_font_resource(1, font_name);
+}
+
+/**
+ * Retrieve the index of the specified node among its siblings.
+ * The index defines the order in which a node appear in a GUI scene.
+ * Higher index means the node is drawn on top of lower indexed nodes.
+ *
+ * @param node the node to retrieve the id from
+ * @returns the index of the node
+ */
+export function get_index(node: Node): number {
+  return lua.gui.get_index(1, to_lua(node));
+}
+
+/**
+ * Returns the width of the screen the gui is rendered to, as set in the project settings.
+ *
+ * @returns scene width
+ */
+export function get_width(): number {
+  return lua.gui.get_width(1);
+}
+
+/**
+ * Returns the height of the screen the gui is rendered to, as set in the project settings.
+ *
+ * @returns scene height
+ */
+export function get_height(): number {
+  return lua.gui.get_height(1);
+}
+
+/**
+ * Dynamically create a new box node.
+ *
+ * @param pos node position
+ * @param size node size
+ * @returns new box node
+ */
+export function new_box_node(pos: Vector3 | Vector4, size: Vector3): Node {
+  return new Node(lua.gui.new_box_node(1, to_lua(pos), to_lua(size)));
+}
+
+/**
+ * Dynamically create a new text node.
+ *
+ * @param pos node position
+ * @param text node text
+ * @returns new text node
+ */
+export function new_text_node(pos: Vector3 | Vector4, text: string): Node {
+  return new Node(lua.gui.new_text_node(1, to_lua(pos), text));
+}
+
+/**
+ * Tests whether a coordinate is within the bounding box of a node.
+ *
+ * @param node node to be tested for picking
+ * @param x x-coordinate (see on_input )
+ * @param y y-coordinate (see on_input )
+ * @returns pick result
+ */
+export function pick_node(node: Node, x: number, y: number): boolean {
+  return lua.gui.pick_node(1, to_lua(node), x, y);
+}
+
+/**
+ * Sets the render ordering for the current GUI scene.
+ * The order is used to sort the gui scenes, a higher order is drawn on top of a lower one.
+ *
+ * @param order rendering order (0-15)
+ */
+export function set_render_order(order: number): void {
+  lua.gui.set_render_order(0, order);
+}
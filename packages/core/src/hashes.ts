@@ -0,0 +1,96 @@
+import { Hash, HashOrString } from './builtins';
+
+// Every string hashed through this module is remembered, together with the hex
+// representation of its hash. Hashes coming from the engine are not cached, as
+// the same hash may reach JS as a different object each time.
+
+const hash_of: Map<string, Hash> = new Map();
+
+const hex_of: Map<Hash, string> = new Map();
+
+const name_of: Map<string, string> = new Map();
+
+/**
+ * Hashes a string, crossing the bridge only the first time a string is seen.
+ *
+ * @param s string to hash
+ * @returns a hashed string
+ */
+export function get(s: string): Hash {
+  let h = hash_of.get(s);
+  if (h === undefined) {
+    h = lua.hash(1, s);
+    const hex: string = lua.hash_to_hex(1, h);
+    hash_of.set(s, h);
+    hex_of.set(h, hex);
+    name_of.set(hex, s);
+  }
+  return h;
+}
+
+/**
+ * Returns the hexadecimal representation of a hash,
+ * without crossing the bridge for hashes created by `get`.
+ *
+ * @param h hash value to get hex string for
+ * @returns hex representation of the hash
+ */
+export function to_hex(h: Hash): string {
+  const hex = hex_of.get(h);
+  return hex !== undefined ? hex : lua.hash_to_hex(1, h);
+}
+
+/**
+ * Check if two hashes (or hash and string) are the same.
+ * Strings are compared directly and hashes created by `get` are compared
+ * through their cached hex representation, so at most one value crosses the bridge.
+ *
+ * @param h1 first hash or string
+ * @param h2 second hash or string
+ * @returns whether both values hash to the same hash
+ */
+export function equals(h1: HashOrString, h2: HashOrString): boolean {
+  if (h1 === h2) {
+    return true;
+  } else if (typeof h1 === 'string' && typeof h2 === 'string') {
+    return false;
+  }
+  return to_hex(typeof h1 === 'string' ? get(h1) : h1) === to_hex(typeof h2 === 'string' ? get(h2) : h2);
+}
+
+/**
+ * Returns the string a hash was created from, if it was hashed by `get`.
+ *
+ * @param h hash to look up
+ * @returns the original string, or undefined if it is unknown
+ */
+export function reverse(h: Hash): string | undefined {
+  return name_of.get(to_hex(h));
+}
+
+/**
+ * Calls the case matching a hash, e.g. an `action_id` in `on_input`:
+ *
+ *     return hashes.switchHash(action_id, {
+ *       up: () => self.input.y = 1,
+ *       down: () => self.input.y = -1,
+ *     });
+ *
+ * The hash crosses the bridge once, the case names only the first time they are seen.
+ *
+ * @param h the hash to match
+ * @param cases functions to call, keyed by the string each hash was created from
+ * @param fallback optional function to call if no case matches
+ * @returns the result of the called function, or undefined if none was called
+ */
+export function switchHash<R>(h: Hash, cases: { [name: string]: () => R }, fallback?: () => R): R | undefined {
+  const hex = to_hex(h);
+  if (!name_of.has(hex)) {
+    Object.keys(cases).forEach((name) => get(name));
+  }
+  const name = name_of.get(hex);
+  if (name !== undefined && Object.prototype.hasOwnProperty.call(cases, name)) {
+    return cases[name]();
+  }
+  return fallback !== undefined ? fallback() : undefined;
+}
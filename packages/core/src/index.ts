@@ -1,10 +1,27 @@
 export * from './lua';
 export * from './builtins';
 export * from './support';
+export * as async from './async';
 export * as buffer from './buffer';
+export * as camera from './camera';
+export * as collectionfactory from './collectionfactory';
+export * as collectionproxy from './collectionproxy';
+export * as factory from './factory';
 export * as go from './go'
+export * as gui from './gui';
+export * as hashes from './hashes';
 export * as html5 from './html5';
 export * as json from './json';
+export * as label from './label';
 export * as msg from './msg';
+export * as particlefx from './particlefx';
+export * as physics from './physics';
+export * as render from './render';
 export * as resource from './resource';
+export * as sound from './sound';
+export * as sprite from './sprite';
+export * as sys from './sys';
+export * as tilemap from './tilemap';
+export * as timer from './timer';
 export * as vmath from './vmath';
+export * as window from './window';
@@ -1,5 +1,7 @@
 // https://defold.com/ref/stable/json/
 
+import { from_lua } from './lua';
+
 /**
  * Decode a string of JSON data into a Lua table. A Lua error is raised for syntax errors.
  *
@@ -7,5 +9,5 @@
  * @returns decoded json
  */
 export function decode(json: string): any {
-  return lua.json.decode(1, json);
+  return from_lua(lua.json.decode(1, json));
 }
@@ -0,0 +1,44 @@
+// https://defold.com/ref/stable/label/
+
+import { from_lua } from './lua';
+import { HashOrStringOrUrl } from './msg';
+
+/**
+ * Metrics of the text of a label.
+ */
+export interface TextMetrics {
+  /** the width of the text */
+  width: number;
+
+  /** the height of the text */
+  height: number;
+
+  /** the max ascent of the text */
+  max_ascent: number;
+
+  /** the max descent of the text */
+  max_descent: number;
+}
+
+/**
+ * Gets the text metrics from a label component
+ *
+ * @param url the label to get the (unscaled) metrics from
+ * @returns the text metrics of the label
+ */
+export function get_text_metrics(url: HashOrStringOrUrl): TextMetrics {
+  return from_lua(lua.label.get_text_metrics(1, url));
+}
+
+/**
+ * Sets the text of a label component
+ *
+ * This method uses the message passing that means the value will be set after `dispatch messages` step.
+ * More information is available in the Application Lifecycle manual.
+ *
+ * @param url the label that should have a constant set
+ * @param text the text
+ */
+export function set_text(url: HashOrStringOrUrl, text: string): void {
+  lua.label.set_text(0, url, text);
+}
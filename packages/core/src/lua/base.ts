@@ -1,6 +1,8 @@
 // https://defold.com/ref/stable/base/
 // https://github.com/TypeScriptToLua/lua-types/blob/master/core/global.d.ts
 
+import { from_lua } from './marshal';
+
 /**
  * A global variable (not a function) that holds a string containing the running
  * Lua version.
@@ -83,7 +85,7 @@ export function collectgarbage(opt?: string, arg?: number): any {
  * mode).
  */
 export function dofile(filename?: string): any {
-  return lua.dofile(1, filename);
+  return from_lua(lua.dofile(1, filename));
 }
 
 /**
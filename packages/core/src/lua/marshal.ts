@@ -0,0 +1,181 @@
+// Conversions between JavaScript values and the Lua values they stand for on
+// the other side of the bridge. Every module converts through these functions
+// instead of building tables by hand.
+
+import { Hash } from '../builtins';
+import * as hashes from '../hashes';
+import { Matrix4, Quaternion, Vector2, Vector3, Vector4, VectorN } from '../vmath';
+
+/**
+ * A JavaScript object wrapping a Lua value.
+ */
+export interface Wrapper {
+  data: any;
+}
+
+type WrapperClass = new (...args: any[]) => Wrapper;
+
+const wrapper_classes: WrapperClass[] = [Vector2, Vector3, Vector4, VectorN, Quaternion, Matrix4];
+
+/**
+ * Registers a class wrapping a Lua value, so `to_lua` converts its instances
+ * to the value they wrap. Subclasses of a registered class are included.
+ * The vmath classes are registered already.
+ *
+ * @param wrapper_class the class to register
+ */
+export function register_wrapper(wrapper_class: WrapperClass): void {
+  wrapper_classes.push(wrapper_class);
+}
+
+function is_wrapper(value: any): value is Wrapper {
+  return wrapper_classes.some((wrapper_class) => value instanceof wrapper_class);
+}
+
+// Engine values such as hashes, URLs and vmath data reach JS as objects too, so
+// an object is only taken for a JS object literal if Lua does not see userdata.
+function is_plain_object(value: any): value is object {
+  return (
+    value !== null &&
+    typeof value === 'object' &&
+    Object.getPrototypeOf(value) === Object.prototype &&
+    lua.type(1, value) !== 'userdata'
+  );
+}
+
+/**
+ * Converts a JavaScript value to the Lua value it stands for, recursively:
+ * `undefined` and `null` become nil, wrapper classes become the value they wrap,
+ * arrays become 1-based tables, and `Map`s and plain objects become keyed tables.
+ * `Map` keys must be strings or numbers. Any other value, including userdata
+ * such as hashes and URLs, is passed as is.
+ *
+ * @param value the value to convert
+ * @returns the Lua value
+ */
+export function to_lua(value: any): any {
+  if (value === undefined || value === null) {
+    return undefined;
+  } else if (is_wrapper(value)) {
+    return value.data;
+  } else if (Array.isArray(value)) {
+    const table = {};
+    value.forEach((v, index) => table[index + 1] = to_lua(v));
+    return table;
+  } else if (value instanceof Map) {
+    const table = {};
+    value.forEach((v, key) => table[key] = to_lua(v));
+    return table;
+  } else if (is_plain_object(value)) {
+    const table = {};
+    Object.keys(value).forEach((key) => table[key] = to_lua(value[key]));
+    return table;
+  }
+  return value;
+}
+
+/**
+ * Converts a Lua value to JavaScript, recursively: tables with the keys 1 to n
+ * become arrays, other tables become plain objects, and vector, quaternion and
+ * matrix userdata become their wrapper classes. Any other value is passed as is.
+ *
+ * @param value the value to convert
+ * @returns the JavaScript value
+ */
+export function from_lua(value: any): any {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  switch (lua.type(1, value)) {
+    case 'table': {
+      const keys = Object.keys(value);
+      if (keys.length > 0 && keys.every((key, index) => value[index + 1] !== undefined)) {
+        return array_from_lua(value);
+      }
+      return object_from_lua(value);
+    }
+    case 'userdata':
+      if (lua.types.is_vector3(1, value)) {
+        return new Vector3(value);
+      } else if (lua.types.is_vector4(1, value)) {
+        return new Vector4(value);
+      } else if (lua.types.is_quat(1, value)) {
+        return new Quaternion(value);
+      } else if (lua.types.is_matrix4(1, value)) {
+        return new Matrix4(value);
+      } else if (lua.types.is_vector(1, value)) {
+        return new VectorN(value);
+      }
+      return value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Converts a 1-based Lua table to an array.
+ *
+ * @param table the table to convert, nil gives an empty array
+ * @param convert conversion of each element, `from_lua` by default
+ * @returns the array
+ */
+export function array_from_lua<T = any>(table: any, convert: (value: any) => T = from_lua): T[] {
+  const array: T[] = [];
+  if (table !== undefined && table !== null) {
+    for (let i = 1; table[i] !== undefined; i++) {
+      array.push(convert(table[i]));
+    }
+  }
+  return array;
+}
+
+/**
+ * Converts a keyed Lua table to a plain object.
+ *
+ * @param table the table to convert, nil gives an empty object
+ * @param convert conversion of each value, `from_lua` by default
+ * @returns the object
+ */
+export function object_from_lua<T = any>(table: any, convert: (value: any) => T = from_lua): { [key: string]: T } {
+  const object: { [key: string]: T } = {};
+  if (table !== undefined && table !== null) {
+    Object.keys(table).forEach((key) => object[key] = convert(table[key]));
+  }
+  return object;
+}
+
+/**
+ * Converts a keyed Lua table to a `Map`.
+ *
+ * @param table the table to convert, nil gives an empty map
+ * @param convert conversion of each value, `from_lua` by default
+ * @returns the map
+ */
+export function map_from_lua<T = any>(table: any, convert: (value: any) => T = from_lua): Map<string, T> {
+  const map = new Map<string, T>();
+  if (table !== undefined && table !== null) {
+    Object.keys(table).forEach((key) => map.set(key, convert(table[key])));
+  }
+  return map;
+}
+
+/**
+ * Converts a Lua table keyed by hashes, e.g. game object or node ids, to a `Map`
+ * keyed by the hex representation of each hash (see `hash_to_hex`). Hashes reach
+ * JS as a new object each time, so they cannot be used as keys themselves.
+ *
+ * @param table the table to convert, nil gives an empty map
+ * @param convert conversion of each value, `from_lua` by default
+ * @returns the map
+ */
+export function hash_map_from_lua<T = any>(table: any, convert: (value: any) => T = from_lua): Map<string, T> {
+  const map = new Map<string, T>();
+  if (table !== undefined && table !== null) {
+    let [key, value]: [Hash, any] = lua.next(2, table, undefined);
+    while (key !== undefined && key !== null) {
+      map.set(hashes.to_hex(key), convert(value));
+      [key, value] = lua.next(2, table, key);
+    }
+  }
+  return map;
+}
@@ -1,6 +1,13 @@
 // https://defold.com/ref/stable/msg/
 
-import { Hash, HashOrString } from './builtins';
+import { Hash, hash, HashOrString, hash_to_hex } from './builtins';
+import { SetCameraMessage } from './camera';
+import { SetTimeStepMessage } from './collectionproxy';
+import { to_lua } from './lua';
+import { SoundDoneMessage } from './sound';
+import { AnimationDoneMessage } from './sprite';
+import { SelfData } from './support';
+import { Matrix4, Vector3, Vector4 } from './vmath';
 
 export declare type Url = {
   socket: number;
@@ -10,6 +17,242 @@ export declare type Url = {
 
 export declare type HashOrStringOrUrl = HashOrString | Url;
 
+/**
+ * The payloads of the messages the engine knows about, keyed by message id.
+ *
+ * Declare your own messages by augmenting this interface, so that `msg.post`
+ * checks their payloads and `msg.dispatcher` types their handlers:
+ *
+ *     declare module '@defold/core/lib/msg' {
+ *       interface Messages {
+ *         take_damage: { amount: number };
+ *       }
+ *     }
+ */
+export interface Messages {
+  /** Post to a game object to receive input (`on_input`) from now on. */
+  acquire_input_focus: {};
+
+  /** Post to a game object to stop receiving input. */
+  release_input_focus: {};
+
+  /** Post to a game object to change its parent. */
+  set_parent: {
+    /** the id of the new parent */
+    parent_id?: Hash;
+
+    /** if the world transform of the instance should be preserved when changing spaces, 0 for false and 1 for true */
+    keep_world_transform?: number;
+  };
+
+  /** Post to a component or game object to enable it. */
+  enable: {};
+
+  /** Post to a component or game object to disable it. */
+  disable: {};
+
+  /** Post to a sprite to play an animation. */
+  play_animation: {
+    /** the id of the animation to play */
+    id: Hash;
+  };
+
+  /** Sent to the sender of `play_animation` when the animation has completed. */
+  animation_done: AnimationDoneMessage;
+
+  /** Post to a sound component to play its sound. */
+  play_sound: {
+    /** delay in seconds before the sound starts playing */
+    delay?: number;
+
+    /** sound gain between 0 and 1 */
+    gain?: number;
+
+    /** the identifier of the sound, sent back in `sound_done` */
+    play_id?: number;
+  };
+
+  /** Post to a sound component to stop all its voices. */
+  stop_sound: {};
+
+  /** Sent to the sender of `play_sound` when the sound has finished playing. */
+  sound_done: SoundDoneMessage;
+
+  /** Post to a sound component to set the gain of all active voices. */
+  set_gain: {
+    /** sound gain between 0 and 1 */
+    gain?: number;
+  };
+
+  /** Sent to a game object when a collision object collides with another one. */
+  collision_response: {
+    /** the id of the instance the collision object collided with */
+    other_id: Hash;
+
+    /** the world position of the instance the collision object collided with */
+    other_position: Vector3.Data;
+
+    /** the collision group of the other collision object */
+    other_group: Hash;
+
+    /** the collision group of the own collision object */
+    own_group: Hash;
+  };
+
+  /** Sent to a game object when a trigger collision object is entered or exited. */
+  trigger_response: {
+    /** the id of the instance the collision object collided with */
+    other_id: Hash;
+
+    /** if the interaction was an entry or not */
+    enter: boolean;
+
+    /** the collision group of the other collision object */
+    other_group: Hash;
+
+    /** the collision group of the own collision object */
+    own_group: Hash;
+  };
+
+  /** Sent back when a ray cast requested with `physics.raycast_async` hits a collision object. */
+  ray_cast_response: {
+    /** the fraction of the hit measured along the ray */
+    fraction: number;
+
+    /** the world position of the hit */
+    position: Vector3.Data;
+
+    /** the normal of the surface of the collision object where it was hit */
+    normal: Vector3.Data;
+
+    /** the instance id of the hit collision object */
+    id: Hash;
+
+    /** the collision group of the hit collision object */
+    group: Hash;
+
+    /** id supplied when the ray cast was requested */
+    request_id: number;
+  };
+
+  /** Sent back when a ray cast requested with `physics.raycast_async` misses. */
+  ray_cast_missed: {
+    /** id supplied when the ray cast was requested */
+    request_id: number;
+  };
+
+  /** Post to a camera component to activate it. */
+  acquire_camera_focus: {};
+
+  /** Post to a camera component to deactivate it. */
+  release_camera_focus: {};
+
+  /** Post to a camera component to set its properties. */
+  set_camera: SetCameraMessage;
+
+  /** Post to a collection proxy to load its collection. */
+  load: {};
+
+  /** Post to a collection proxy to load its collection in the background. */
+  async_load: {};
+
+  /** Post to a collection proxy to initialize its collection. */
+  init: {};
+
+  /** Post to a collection proxy to finalize its collection. */
+  final: {};
+
+  /** Post to a collection proxy to unload its collection. */
+  unload: {};
+
+  /** Sent back by a collection proxy when its collection has been loaded. */
+  proxy_loaded: {};
+
+  /** Sent back by a collection proxy when its collection has been unloaded. */
+  proxy_unloaded: {};
+
+  /** Post to a collection proxy to change the time-step of its collection. */
+  set_time_step: SetTimeStepMessage;
+
+  /** Post to the render script to set the clear color. */
+  clear_color: {
+    /** the new clear color */
+    color: Vector4.Data;
+  };
+
+  /** Post to the render script to set the view and projection matrices. */
+  set_view_projection: {
+    /** the id of the camera */
+    id?: Hash;
+
+    /** the view matrix */
+    view: Matrix4.Data;
+
+    /** the projection matrix */
+    projection: Matrix4.Data;
+  };
+
+  /** Sent to the render script when the window is resized. */
+  window_resized: {
+    /** the new window width */
+    width: number;
+
+    /** the new window height */
+    height: number;
+  };
+
+  /** Post to the render script to draw a debug line. */
+  draw_line: {
+    /** the start position of the line */
+    start_point: Vector3.Data;
+
+    /** the end position of the line */
+    end_point: Vector3.Data;
+
+    /** the color of the line */
+    color: Vector4.Data;
+  };
+
+  /** Post to the render script to draw debug text. */
+  draw_text: {
+    /** the position of the text */
+    position: Vector3.Data;
+
+    /** the text to draw */
+    text: string;
+  };
+
+  /** Post to `@system:` to terminate the game. */
+  exit: {
+    /** exit code to report to the OS, 0 means clean exit */
+    code: number;
+  };
+
+  /** Post to `@system:` to toggle the on-screen profiler. */
+  toggle_profile: {};
+
+  /** Post to `@system:` to toggle physics debug rendering. */
+  toggle_physics_debug: {};
+
+  /** Post to `@system:` to set the update frequency. */
+  set_update_frequency: {
+    /** target frequency, 60 for 60 Hz */
+    frequency: number;
+  };
+
+  /** Post to `@system:` to set vsync. */
+  set_vsync: {
+    /** 0 disables vsync, 1 enables it */
+    swap_interval: number;
+  };
+}
+
+/**
+ * The message argument of `msg.post` for a registered message id.
+ * It may be omitted when the payload has no required fields.
+ */
+type MessageArgument<K extends keyof Messages> = {} extends Messages[K] ? [Messages[K]?] : [Messages[K]];
+
 /**
  * Post a message to a receiving URL.
  * The most common case is to send messages to a component.
@@ -23,17 +266,73 @@ export declare type HashOrStringOrUrl = HashOrString | Url;
  * There is a 2 kilobyte limit to the message parameter table size.
  *
  * @param receiver The receiver must be a string in URL-format, a URL object or a hashed string.
+ * @param message_id The id of a message declared in `Messages`.
+ * @param message a lua table with message parameters to send, checked against the declared payload.
+ */
+export function post<K extends keyof Messages>(receiver: HashOrStringOrUrl, message_id: K, ...message: MessageArgument<K>): void;
+
+/**
+ * Post a message that is not declared in `Messages`.
+ * The payload of a declared message id must match its declaration.
+ *
+ * @param receiver The receiver must be a string in URL-format, a URL object or a hashed string.
  * @param message_id The id must be a string or a hashed string.
  * @param message a lua table with message parameters to send.
  */
+export function post<K extends HashOrString>(receiver: HashOrStringOrUrl, message_id: K extends keyof Messages ? never : K, message?: Object): void;
+
 export function post(receiver: HashOrStringOrUrl, message_id: HashOrString, message?: Object): void {
   if (message === undefined) {
     lua.msg.post(0, receiver, message_id);
   } else {
-    lua.msg.post(0, receiver, message_id, message);
+    lua.msg.post(0, receiver, message_id, to_lua(message));
   }
 }
 
+/**
+ * A handler for one message id.
+ *
+ * @param self The current object.
+ * @param message The message payload.
+ * @param sender The address of the sender.
+ */
+type MessageHandler<Self, T> = (self: Self, message: T, sender: Url) => void;
+
+/**
+ * Message handlers, keyed by the id of the message they handle.
+ */
+export type MessageHandlers<Self = SelfData> = {
+  [K in keyof Messages]?: MessageHandler<Self, Messages[K]>;
+};
+
+/**
+ * Creates an `on_message` function which routes each incoming message to the handler
+ * registered for its id. The ids are hashed once, when the dispatcher is created.
+ *
+ * The returned function returns whether a handler was found for the message.
+ *
+ *     export const on_message = msg.dispatcher<ShipData>({
+ *       animation_done(self, message) { ... },
+ *     });
+ *
+ * @param handlers message handlers, keyed by message id
+ * @returns an `on_message` function
+ */
+export function dispatcher<Self = SelfData>(
+  handlers: MessageHandlers<Self>
+): (self: Self, message_id: Hash, message: any, sender: Url) => boolean {
+  const routes: { [hex: string]: MessageHandler<Self, any> } = {};
+  Object.keys(handlers).forEach((id) => routes[hash_to_hex(hash(id))] = handlers[id]);
+  return (self, message_id, message, sender) => {
+    const handler = routes[hash_to_hex(message_id)];
+    if (handler === undefined) {
+      return false;
+    }
+    handler(self, message, sender);
+    return true;
+  };
+}
+
 /**
  * This is equivalent to msg.url(nil) or msg.url("#"),
  * which creates an url to the current script component.
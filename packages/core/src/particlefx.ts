@@ -0,0 +1,94 @@
+// https://defold.com/ref/stable/particlefx/
+
+import { Hash, HashOrString } from './builtins';
+import { to_lua } from './lua';
+import { HashOrStringOrUrl } from './msg';
+import { SelfData } from './support';
+import { Vector4 } from './vmath';
+
+export enum EMITTER_STATE {
+  /** The emitter is not spawning any particles, but has particles that are still alive. */
+  EMITTER_STATE_POSTSPAWN = lua.particlefx.EMITTER_STATE_POSTSPAWN,
+
+  /** The emitter will be in this state when it has been started but before spawning any particles. Normally the emitter is in this state for a short time, depending on if a start delay has been set for this emitter or not. */
+  EMITTER_STATE_PRESPAWN = lua.particlefx.EMITTER_STATE_PRESPAWN,
+
+  /** The emitter does not have any living particles and will not spawn any particles in this state. */
+  EMITTER_STATE_SLEEPING = lua.particlefx.EMITTER_STATE_SLEEPING,
+
+  /** The emitter is spawning particles. */
+  EMITTER_STATE_SPAWNING = lua.particlefx.EMITTER_STATE_SPAWNING,
+}
+
+/**
+ * @param self The current object.
+ * @param id The id of the particle fx component.
+ * @param emitter The id of the emitter.
+ * @param state the new state of the emitter.
+ */
+type EmitterStateFunction = (self: SelfData, id: Hash, emitter: Hash, state: EMITTER_STATE) => void;
+
+/**
+ * Starts playing a particle FX component.
+ * Particle FX started this way need to be manually stopped through `particlefx.stop()`.
+ * Which particle FX to play is identified by the URL.
+ *
+ * A particle FX will continue to emit particles even if the game object the particle FX
+ * component belonged to is deleted. You can call `particlefx.stop()` to stop it from emitting
+ * more particles.
+ *
+ * @param url the particle fx that should start playing.
+ * @param emitter_state_function optional callback function that will be called when an emitter attached to this particlefx changes state.
+ */
+export function play(url: HashOrStringOrUrl, emitter_state_function?: EmitterStateFunction): void {
+  lua.particlefx.play(0, url, emitter_state_function);
+}
+
+/**
+ * Options for `particlefx.stop`.
+ */
+export interface StopOptions {
+  /** instantly clear spawned particles */
+  clear?: boolean;
+}
+
+/**
+ * Stopping a particle FX does not remove already spawned particles.
+ * Which particle FX to stop is identified by the URL.
+ *
+ * @param url the particle fx that should stop playing
+ * @param options options when stopping the particle fx.
+ */
+export function stop(url: HashOrStringOrUrl, options?: StopOptions): void {
+  lua.particlefx.stop(0, url, to_lua(options));
+}
+
+/**
+ * Resets a shader constant for a particle FX component emitter.
+ * The constant must be defined in the material assigned to the emitter.
+ * Resetting a constant through this function implies that the value defined in the material will be used.
+ * Which particle FX to reset a constant for is identified by the URL.
+ *
+ * @param url the particle FX that should have a constant reset
+ * @param emitter the id of the emitter
+ * @param constant the name of the constant
+ */
+export function reset_constant(url: HashOrStringOrUrl, emitter: HashOrString, constant: HashOrString): void {
+  lua.particlefx.reset_constant(0, url, emitter, constant);
+}
+
+/**
+ * Sets a shader constant for a particle FX component emitter.
+ * The constant must be defined in the material assigned to the emitter.
+ * Setting a constant through this function will override the value set for that constant in the material.
+ * The value will be overridden until particlefx.reset_constant is called.
+ * Which particle FX to set a constant for is identified by the URL.
+ *
+ * @param url the particle FX that should have a constant set
+ * @param emitter the id of the emitter
+ * @param constant the name of the constant
+ * @param value the value of the constant
+ */
+export function set_constant(url: HashOrStringOrUrl, emitter: HashOrString, constant: HashOrString, value: Vector4): void {
+  lua.particlefx.set_constant(0, url, emitter, constant, to_lua(value));
+}
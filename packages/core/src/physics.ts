@@ -0,0 +1,272 @@
+// https://defold.com/ref/stable/physics/
+
+import { Hash, HashOrString } from './builtins';
+import { array_from_lua, from_lua, to_lua } from './lua';
+import { HashOrStringOrUrl } from './msg';
+import { Vector3 } from './vmath';
+
+export enum JOINT_TYPE {
+  /** The following properties are available when connecting a joint of `JOINT_TYPE_FIXED` type. */
+  JOINT_TYPE_FIXED = lua.physics.JOINT_TYPE_FIXED,
+
+  /** The following properties are available when connecting a joint of `JOINT_TYPE_HINGE` type. */
+  JOINT_TYPE_HINGE = lua.physics.JOINT_TYPE_HINGE,
+
+  /** The following properties are available when connecting a joint of `JOINT_TYPE_SLIDER` type. */
+  JOINT_TYPE_SLIDER = lua.physics.JOINT_TYPE_SLIDER,
+
+  /** The following properties are available when connecting a joint of `JOINT_TYPE_SPRING` type. */
+  JOINT_TYPE_SPRING = lua.physics.JOINT_TYPE_SPRING,
+}
+
+/**
+ * Properties of a joint. Which of them apply depends on the joint type.
+ */
+export interface JointProperties {
+  /** Set this flag to true if the attached bodies should collide. (all joint types) */
+  collide_connected?: boolean;
+
+  /** The maximum length of the rope. (`JOINT_TYPE_FIXED`) */
+  max_length?: number;
+
+  /** The natural length between the anchor points. (`JOINT_TYPE_SPRING`) */
+  length?: number;
+
+  /** The mass-spring-damper frequency in Hertz. A value of 0 disables softness. (`JOINT_TYPE_SPRING`) */
+  frequency?: number;
+
+  /** The damping ratio. 0 = no damping, 1 = critical damping. (`JOINT_TYPE_SPRING`) */
+  damping?: number;
+
+  /** The bodyB angle minus bodyA angle in the reference state (radians). (`JOINT_TYPE_HINGE`, `JOINT_TYPE_SLIDER`) */
+  reference_angle?: number;
+
+  /** The lower angle for the joint limit (radians). (`JOINT_TYPE_HINGE`) */
+  lower_angle?: number;
+
+  /** The upper angle for the joint limit (radians). (`JOINT_TYPE_HINGE`) */
+  upper_angle?: number;
+
+  /** The maximum motor torque used to achieve the desired motor speed. Usually in N-m. (`JOINT_TYPE_HINGE`) */
+  max_motor_torque?: number;
+
+  /** The desired motor speed. Usually in radians per second. (`JOINT_TYPE_HINGE`, `JOINT_TYPE_SLIDER`) */
+  motor_speed?: number;
+
+  /** A flag to enable joint limits. (`JOINT_TYPE_HINGE`, `JOINT_TYPE_SLIDER`) */
+  enable_limit?: boolean;
+
+  /** A flag to enable the joint motor. (`JOINT_TYPE_HINGE`, `JOINT_TYPE_SLIDER`) */
+  enable_motor?: boolean;
+
+  /** The local translation unit axis in bodyA. (`JOINT_TYPE_SLIDER`) */
+  local_axis_a?: Vector3;
+
+  /** The lower translation limit, usually in meters. (`JOINT_TYPE_SLIDER`) */
+  lower_translation?: number;
+
+  /** The upper translation limit, usually in meters. (`JOINT_TYPE_SLIDER`) */
+  upper_translation?: number;
+
+  /** The maximum motor torque, usually in N-m. (`JOINT_TYPE_SLIDER`) */
+  max_motor_force?: number;
+}
+
+/**
+ * A table describing a ray cast hit.
+ */
+export interface RaycastResult {
+  /** the fraction of the hit measured along the ray, where 0 is the start of the ray and 1 is the end */
+  fraction: number;
+
+  /** the world position of the hit */
+  position: Vector3;
+
+  /** the normal of the surface of the collision object where it was hit */
+  normal: Vector3;
+
+  /** the instance id of the hit collision object */
+  id: Hash;
+
+  /** the collision group of the hit collision object as a hashed name */
+  group: Hash;
+
+  /** id supplied when the ray cast was requested */
+  request_id?: number;
+}
+
+/**
+ * Ray casts are used to test for intersections against collision objects in the physics world.
+ * Collision objects of types kinematic, dynamic and static are tested against. Trigger objects
+ * do not intersect with ray casts.
+ * Which collision objects to hit is filtered by their collision groups and can be configured
+ * through `groups`.
+ *
+ * @param from the world position of the start of the ray
+ * @param to the world position of the end of the ray
+ * @param groups a list of collision groups names to check against
+ * @returns the closest hit, or undefined if nothing was hit
+ */
+export function raycast(from: Vector3, to: Vector3, groups: Array<HashOrString>): RaycastResult | undefined;
+
+/**
+ * Ray casts are used to test for intersections against collision objects in the physics world.
+ * Collision objects of types kinematic, dynamic and static are tested against. Trigger objects
+ * do not intersect with ray casts.
+ * Which collision objects to hit is filtered by their collision groups and can be configured
+ * through `groups`.
+ *
+ * @param from the world position of the start of the ray
+ * @param to the world position of the end of the ray
+ * @param groups a list of collision groups names to check against
+ * @param options a table of options
+ * @returns every hit, ordered by distance, or an empty array if nothing was hit
+ */
+export function raycast(from: Vector3, to: Vector3, groups: Array<HashOrString>, options: { all: true }): RaycastResult[];
+
+export function raycast(from: Vector3, to: Vector3, groups: Array<HashOrString>, options?: { all: boolean }): RaycastResult | RaycastResult[] | undefined {
+  const result = lua.physics.raycast(1, to_lua(from), to_lua(to), to_lua(groups), to_lua(options));
+  if (options && options.all) {
+    return array_from_lua<RaycastResult>(result);
+  }
+  return from_lua(result);
+}
+
+/**
+ * Ray casts are used to test for intersections against collision objects in the physics world.
+ * Collision objects of types kinematic, dynamic and static are tested against. Trigger objects
+ * do not intersect with ray casts.
+ * Which collision objects to hit is filtered by their collision groups and can be configured
+ * through `groups`.
+ * The actual ray cast will be performed during the physics-update.
+ *
+ * If an object is hit, the result will be reported via a `ray_cast_response` message.
+ * If there is no object hit, the result will be reported via a `ray_cast_missed` message.
+ *
+ * @param from the world position of the start of the ray
+ * @param to the world position of the end of the ray
+ * @param groups a list of collision groups names to check against
+ * @param request_id a number between [0,-255]. It will be sent back in the response for identification, 0 by default
+ */
+export function raycast_async(from: Vector3, to: Vector3, groups: Array<HashOrString>, request_id?: number): void {
+  lua.physics.raycast_async(0, to_lua(from), to_lua(to), to_lua(groups), request_id);
+}
+
+/**
+ * Create a joint between two collision objects. A joint can be of the following types:
+ * fixed, hinge, slider and spring.
+ *
+ * @param joint_type the joint type
+ * @param collisionobject_a first collision object
+ * @param joint_id id of the joint
+ * @param position_a local position where to attach the joint on the first collision object
+ * @param collisionobject_b second collision object
+ * @param position_b local position where to attach the joint on the second collision object
+ * @param properties optional joint specific properties table
+ */
+export function create_joint(
+  joint_type: JOINT_TYPE,
+  collisionobject_a: HashOrStringOrUrl,
+  joint_id: HashOrString,
+  position_a: Vector3,
+  collisionobject_b: HashOrStringOrUrl,
+  position_b: Vector3,
+  properties?: JointProperties
+): void {
+  lua.physics.create_joint(
+    0,
+    joint_type,
+    collisionobject_a,
+    joint_id,
+    to_lua(position_a),
+    collisionobject_b,
+    to_lua(position_b),
+    to_lua(properties)
+  );
+}
+
+/**
+ * Destroy an already physics joint. The joint has to be created before a destroy can be issued.
+ *
+ * @param collisionobject collision object where the joint exist
+ * @param joint_id id of the joint
+ */
+export function destroy_joint(collisionobject: HashOrStringOrUrl, joint_id: HashOrString): void {
+  lua.physics.destroy_joint(0, collisionobject, joint_id);
+}
+
+/**
+ * Get a table for properties for a connected joint. The joint has to be created before
+ * properties can be retrieved.
+ *
+ * @param collisionobject collision object where the joint exist
+ * @param joint_id id of the joint
+ * @returns properties table
+ */
+export function get_joint_properties(collisionobject: HashOrStringOrUrl, joint_id: HashOrString): JointProperties {
+  return from_lua(lua.physics.get_joint_properties(1, collisionobject, joint_id));
+}
+
+/**
+ * Updates the properties for an already connected joint. The joint has to be created before
+ * properties can be changed.
+ *
+ * @param collisionobject collision object where the joint exist
+ * @param joint_id id of the joint
+ * @param properties joint specific properties table
+ */
+export function set_joint_properties(collisionobject: HashOrStringOrUrl, joint_id: HashOrString, properties: JointProperties): void {
+  lua.physics.set_joint_properties(0, collisionobject, joint_id, to_lua(properties));
+}
+
+/**
+ * Get the gravity in runtime. The gravity returned is not global,
+ * it will return the gravity for the collection that the function is called from.
+ *
+ * @returns gravity vector of collection
+ */
+export function get_gravity(): Vector3 {
+  return new Vector3(lua.physics.get_gravity(1));
+}
+
+/**
+ * Set the gravity in runtime. The gravity change is not global,
+ * it will only affect the collection that the function is called from.
+ *
+ * Note: For 2D physics the z component of the gravity vector will be ignored.
+ *
+ * @param gravity the new gravity vector
+ */
+export function set_gravity(gravity: Vector3): void {
+  lua.physics.set_gravity(0, to_lua(gravity));
+}
+
+/**
+ * Flips the collision shapes horizontally for a collision object
+ *
+ * @param url the collision object that should flip its shapes
+ * @param flip `true` if the collision object should flip its shapes, `false` if not
+ */
+export function set_hflip(url: HashOrStringOrUrl, flip: boolean): void {
+  lua.physics.set_hflip(0, url, flip);
+}
+
+/**
+ * Flips the collision shapes vertically for a collision object
+ *
+ * @param url the collision object that should flip its shapes
+ * @param flip `true` if the collision object should flip its shapes, `false` if not
+ */
+export function set_vflip(url: HashOrStringOrUrl, flip: boolean): void {
+  lua.physics.set_vflip(0, url, flip);
+}
+
+/**
+ * Collision objects tend to fall asleep when inactive for a small period of time for
+ * efficiency reasons. This function wakes them up.
+ *
+ * @param url the collision object to wake.
+ */
+export function wakeup(url: HashOrStringOrUrl): void {
+  lua.physics.wakeup(0, url);
+}
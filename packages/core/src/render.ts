@@ -0,0 +1,630 @@
+// https://defold.com/ref/stable/render/
+
+import { HashOrString } from './builtins';
+import { to_lua } from './lua';
+import { Matrix4, Vector4 } from './vmath';
+
+// The render module is only registered for render scripts, so fall back to an
+// empty table to keep this module importable from other script types.
+const constants = lua.render || {};
+
+export enum BLEND {
+  /** constant alpha blend factor */
+  BLEND_CONSTANT_ALPHA = constants.BLEND_CONSTANT_ALPHA,
+
+  /** constant color blend factor */
+  BLEND_CONSTANT_COLOR = constants.BLEND_CONSTANT_COLOR,
+
+  /** destination alpha blend factor */
+  BLEND_DST_ALPHA = constants.BLEND_DST_ALPHA,
+
+  /** destination color blend factor */
+  BLEND_DST_COLOR = constants.BLEND_DST_COLOR,
+
+  /** one blend factor */
+  BLEND_ONE = constants.BLEND_ONE,
+
+  /** one minus constant alpha blend factor */
+  BLEND_ONE_MINUS_CONSTANT_ALPHA = constants.BLEND_ONE_MINUS_CONSTANT_ALPHA,
+
+  /** one minus constant color blend factor */
+  BLEND_ONE_MINUS_CONSTANT_COLOR = constants.BLEND_ONE_MINUS_CONSTANT_COLOR,
+
+  /** one minus destination alpha blend factor */
+  BLEND_ONE_MINUS_DST_ALPHA = constants.BLEND_ONE_MINUS_DST_ALPHA,
+
+  /** one minus destination color blend factor */
+  BLEND_ONE_MINUS_DST_COLOR = constants.BLEND_ONE_MINUS_DST_COLOR,
+
+  /** one minus source alpha blend factor */
+  BLEND_ONE_MINUS_SRC_ALPHA = constants.BLEND_ONE_MINUS_SRC_ALPHA,
+
+  /** one minus source color blend factor */
+  BLEND_ONE_MINUS_SRC_COLOR = constants.BLEND_ONE_MINUS_SRC_COLOR,
+
+  /** source alpha blend factor */
+  BLEND_SRC_ALPHA = constants.BLEND_SRC_ALPHA,
+
+  /** source alpha saturate blend factor */
+  BLEND_SRC_ALPHA_SATURATE = constants.BLEND_SRC_ALPHA_SATURATE,
+
+  /** source color blend factor */
+  BLEND_SRC_COLOR = constants.BLEND_SRC_COLOR,
+
+  /** zero blend factor */
+  BLEND_ZERO = constants.BLEND_ZERO,
+}
+
+export enum BUFFER {
+  /** color buffer */
+  BUFFER_COLOR_BIT = constants.BUFFER_COLOR_BIT,
+
+  /** depth buffer */
+  BUFFER_DEPTH_BIT = constants.BUFFER_DEPTH_BIT,
+
+  /** stencil buffer */
+  BUFFER_STENCIL_BIT = constants.BUFFER_STENCIL_BIT,
+}
+
+export enum COMPARE_FUNC {
+  /** always compare function */
+  COMPARE_FUNC_ALWAYS = constants.COMPARE_FUNC_ALWAYS,
+
+  /** equal compare function */
+  COMPARE_FUNC_EQUAL = constants.COMPARE_FUNC_EQUAL,
+
+  /** greater or equal compare function */
+  COMPARE_FUNC_GEQUAL = constants.COMPARE_FUNC_GEQUAL,
+
+  /** greater compare function */
+  COMPARE_FUNC_GREATER = constants.COMPARE_FUNC_GREATER,
+
+  /** less or equal compare function */
+  COMPARE_FUNC_LEQUAL = constants.COMPARE_FUNC_LEQUAL,
+
+  /** less compare function */
+  COMPARE_FUNC_LESS = constants.COMPARE_FUNC_LESS,
+
+  /** never compare function */
+  COMPARE_FUNC_NEVER = constants.COMPARE_FUNC_NEVER,
+
+  /** not equal compare function */
+  COMPARE_FUNC_NOTEQUAL = constants.COMPARE_FUNC_NOTEQUAL,
+}
+
+export enum FACE {
+  /** back face */
+  FACE_BACK = constants.FACE_BACK,
+
+  /** front face */
+  FACE_FRONT = constants.FACE_FRONT,
+
+  /** front and back face */
+  FACE_FRONT_AND_BACK = constants.FACE_FRONT_AND_BACK,
+}
+
+export enum FILTER {
+  /** linear filter */
+  FILTER_LINEAR = constants.FILTER_LINEAR,
+
+  /** nearest filter */
+  FILTER_NEAREST = constants.FILTER_NEAREST,
+}
+
+export enum FORMAT {
+  /** depth format */
+  FORMAT_DEPTH = constants.FORMAT_DEPTH,
+
+  /** luminance format */
+  FORMAT_LUMINANCE = constants.FORMAT_LUMINANCE,
+
+  /** rgb format */
+  FORMAT_RGB = constants.FORMAT_RGB,
+
+  /** rgba format */
+  FORMAT_RGBA = constants.FORMAT_RGBA,
+
+  /** stencil format */
+  FORMAT_STENCIL = constants.FORMAT_STENCIL,
+}
+
+export enum STATE {
+  /** blend render state */
+  STATE_BLEND = constants.STATE_BLEND,
+
+  /** cull face render state */
+  STATE_CULL_FACE = constants.STATE_CULL_FACE,
+
+  /** depth test render state */
+  STATE_DEPTH_TEST = constants.STATE_DEPTH_TEST,
+
+  /** polygon offset fill render state */
+  STATE_POLYGON_OFFSET_FILL = constants.STATE_POLYGON_OFFSET_FILL,
+
+  /** stencil test render state */
+  STATE_STENCIL_TEST = constants.STATE_STENCIL_TEST,
+}
+
+export enum STENCIL_OP {
+  /** decrement stencil operation */
+  STENCIL_OP_DECR = constants.STENCIL_OP_DECR,
+
+  /** decrement wrap stencil operation */
+  STENCIL_OP_DECR_WRAP = constants.STENCIL_OP_DECR_WRAP,
+
+  /** increment stencil operation */
+  STENCIL_OP_INCR = constants.STENCIL_OP_INCR,
+
+  /** increment wrap stencil operation */
+  STENCIL_OP_INCR_WRAP = constants.STENCIL_OP_INCR_WRAP,
+
+  /** invert stencil operation */
+  STENCIL_OP_INVERT = constants.STENCIL_OP_INVERT,
+
+  /** keep stencil operation */
+  STENCIL_OP_KEEP = constants.STENCIL_OP_KEEP,
+
+  /** replace stencil operation */
+  STENCIL_OP_REPLACE = constants.STENCIL_OP_REPLACE,
+
+  /** zero stencil operation */
+  STENCIL_OP_ZERO = constants.STENCIL_OP_ZERO,
+}
+
+export enum WRAP {
+  /** clamp to border wrap mode */
+  WRAP_CLAMP_TO_BORDER = constants.WRAP_CLAMP_TO_BORDER,
+
+  /** clamp to edge wrap mode */
+  WRAP_CLAMP_TO_EDGE = constants.WRAP_CLAMP_TO_EDGE,
+
+  /** mirrored repeat wrap mode */
+  WRAP_MIRRORED_REPEAT = constants.WRAP_MIRRORED_REPEAT,
+
+  /** repeat wrap mode */
+  WRAP_REPEAT = constants.WRAP_REPEAT,
+}
+
+export declare type Predicate = {};
+
+export declare type RenderTarget = {};
+
+/**
+ * A table keyed by buffer type. The engine expects the `render.BUFFER_*` constants
+ * as keys, which this module fills in from the named fields.
+ */
+export interface BufferTypeTable<T> {
+  color?: T;
+  depth?: T;
+  stencil?: T;
+}
+
+function to_buffer_type_table<T>(table: BufferTypeTable<T>): Map<BUFFER, T> {
+  const result = new Map<BUFFER, T>();
+  if (table.color !== undefined) result.set(BUFFER.BUFFER_COLOR_BIT, table.color);
+  if (table.depth !== undefined) result.set(BUFFER.BUFFER_DEPTH_BIT, table.depth);
+  if (table.stencil !== undefined) result.set(BUFFER.BUFFER_STENCIL_BIT, table.stencil);
+  return result;
+}
+
+/**
+ * Clear buffers in the currently enabled render target with specified value.
+ * If the render target has been created with multiple color attachments,
+ * all buffers will be cleared with the same value.
+ *
+ * @param buffers table with buffer type keys and the values to clear them with
+ */
+export function clear(buffers: BufferTypeTable<Vector4 | number>): void {
+  lua.render.clear(0, to_lua(to_buffer_type_table(buffers)));
+}
+
+/**
+ * Optional table with properties for `render.draw`.
+ */
+export interface DrawOptions {
+  /** A frustum matrix used to cull renderable items. (E.g. local frustum = proj * view). May be nil. */
+  frustum?: Matrix4;
+}
+
+/**
+ * Draws all objects that match a specified predicate. An optional constant buffer can be
+ * provided to override the default constants. If no constants buffer is provided, a default
+ * system constants buffer is used containing constants as defined in materials and set through
+ * `go.set` (or `particlefx.set_constant`) on visual components.
+ *
+ * @param predicate predicate to draw for
+ * @param options optional table with properties
+ */
+export function draw(predicate: Predicate, options?: DrawOptions): void {
+  lua.render.draw(0, predicate, to_lua(options));
+}
+
+/**
+ * Draws all 3d debug graphics such as lines drawn with "draw_line" messages and physics visualization.
+ *
+ * @param options optional table with properties
+ */
+export function draw_debug3d(options?: DrawOptions): void {
+  lua.render.draw_debug3d(0, to_lua(options));
+}
+
+/**
+ * This function returns a new render predicate for objects with materials matching
+ * the provided material tags. The provided tags are combined into a bit mask
+ * for the predicate. If multiple tags are provided, the predicate matches materials
+ * with all tags ANDed together.
+ *
+ * The current limit to the number of tags that can be defined is `64`.
+ *
+ * @param tags array of tags that the predicate should match
+ * @returns new predicate
+ */
+export function predicate(tags: Array<HashOrString>): Predicate {
+  return lua.render.predicate(1, to_lua(tags));
+}
+
+/**
+ * Sets the view matrix to use when rendering.
+ *
+ * @param matrix view matrix to set
+ */
+export function set_view(matrix: Matrix4): void {
+  lua.render.set_view(0, to_lua(matrix));
+}
+
+/**
+ * Sets the projection matrix to use when rendering.
+ *
+ * @param matrix projection matrix
+ */
+export function set_projection(matrix: Matrix4): void {
+  lua.render.set_projection(0, to_lua(matrix));
+}
+
+/**
+ * Set the render viewport to the specified rectangle.
+ *
+ * @param x left corner
+ * @param y bottom corner
+ * @param width viewport width
+ * @param height viewport height
+ */
+export function set_viewport(x: number, y: number, width: number, height: number): void {
+  lua.render.set_viewport(0, x, y, width, height);
+}
+
+/**
+ * Returns the logical window width that is set in the "game.project" settings.
+ * Note that the actual window pixel size can change, either by device constraints
+ * or user input.
+ *
+ * @returns specified window width (number)
+ */
+export function get_width(): number {
+  return lua.render.get_width(1);
+}
+
+/**
+ * Returns the logical window height that is set in the "game.project" settings.
+ * Note that the actual window pixel size can change, either by device constraints
+ * or user input.
+ *
+ * @returns specified window height
+ */
+export function get_height(): number {
+  return lua.render.get_height(1);
+}
+
+/**
+ * Returns the actual physical window width.
+ * Note that this value might differ from the logical width that is set in the
+ * "game.project" settings.
+ *
+ * @returns actual window width
+ */
+export function get_window_width(): number {
+  return lua.render.get_window_width(1);
+}
+
+/**
+ * Returns the actual physical window height.
+ * Note that this value might differ from the logical height that is set in the
+ * "game.project" settings.
+ *
+ * @returns actual window height
+ */
+export function get_window_height(): number {
+  return lua.render.get_window_height(1);
+}
+
+/**
+ * Parameters of one buffer of a render target.
+ */
+export interface RenderTargetBufferParameters {
+  /** the format of the buffer */
+  format: FORMAT;
+
+  /** the width of the buffer */
+  width: number;
+
+  /** the height of the buffer */
+  height: number;
+
+  /** optional minification filter */
+  min_filter?: FILTER;
+
+  /** optional magnification filter */
+  mag_filter?: FILTER;
+
+  /** optional u wrap mode */
+  u_wrap?: WRAP;
+
+  /** optional v wrap mode */
+  v_wrap?: WRAP;
+}
+
+/**
+ * Creates a new render target according to the supplied specification table.
+ *
+ * @param name render target name
+ * @param parameters table of buffer parameters, keyed by buffer type
+ * @returns new render target
+ */
+export function render_target(name: string, parameters: BufferTypeTable<RenderTargetBufferParameters>): RenderTarget {
+  return lua.render.render_target(1, name, to_lua(to_buffer_type_table(parameters)));
+}
+
+/**
+ * Deletes a previously created render target.
+ *
+ * @param render_target render target to delete
+ */
+export function delete_render_target(render_target: RenderTarget): void {
+  lua.render.delete_render_target(0, render_target);
+}
+
+/**
+ * Enables a render target. Subsequent draw operations will be to the enabled render target
+ * until it is disabled.
+ *
+ * @param render_target render target to enable
+ */
+export function enable_render_target(render_target: RenderTarget): void {
+  lua.render.enable_render_target(0, render_target);
+}
+
+/**
+ * Disables a previously enabled render target. Subsequent draw operations
+ * will be drawn to the frame buffer unless another render target is enabled.
+ *
+ * @param render_target render target to disable
+ */
+export function disable_render_target(render_target: RenderTarget): void {
+  lua.render.disable_render_target(0, render_target);
+}
+
+/**
+ * sets the render target size
+ *
+ * @param render_target render target to set size for
+ * @param width new render target width
+ * @param height new render target height
+ */
+export function set_render_target_size(render_target: RenderTarget, width: number, height: number): void {
+  lua.render.set_render_target_size(0, render_target, width, height);
+}
+
+/**
+ * Returns the specified buffer width from a render target.
+ *
+ * @param render_target render target from which to retrieve the buffer width
+ * @param buffer_type which type of buffer to retrieve the width from
+ * @returns the width of the render target buffer texture
+ */
+export function get_render_target_width(render_target: RenderTarget, buffer_type: BUFFER): number {
+  return lua.render.get_render_target_width(1, render_target, buffer_type);
+}
+
+/**
+ * Returns the specified buffer height from a render target.
+ *
+ * @param render_target render target from which to retrieve the buffer height
+ * @param buffer_type which type of buffer to retrieve the height from
+ * @returns the height of the render target buffer texture
+ */
+export function get_render_target_height(render_target: RenderTarget, buffer_type: BUFFER): number {
+  return lua.render.get_render_target_height(1, render_target, buffer_type);
+}
+
+/**
+ * Sets the specified render target's specified buffer to be used as texture with the
+ * specified unit. A material shader can then use the texture to sample from.
+ *
+ * @param unit texture unit to enable texture for
+ * @param render_target render target from which to enable the specified texture unit
+ * @param buffer_type buffer type from which to enable the texture
+ */
+export function enable_texture(unit: number, render_target: RenderTarget, buffer_type: BUFFER): void {
+  lua.render.enable_texture(0, unit, render_target, buffer_type);
+}
+
+/**
+ * Disables a texture unit for a render target that has previously been enabled.
+ *
+ * @param unit texture unit to disable
+ */
+export function disable_texture(unit: number): void {
+  lua.render.disable_texture(0, unit);
+}
+
+/**
+ * Enables a particular render state. The state will be enabled until disabled.
+ *
+ * @param state state to enable
+ */
+export function enable_state(state: STATE): void {
+  lua.render.enable_state(0, state);
+}
+
+/**
+ * Disables a render state.
+ *
+ * @param state state to disable
+ */
+export function disable_state(state: STATE): void {
+  lua.render.disable_state(0, state);
+}
+
+/**
+ * If another material was already enabled, it will be automatically disabled
+ * and the specified material is used instead.
+ *
+ * The name of the material must be specified in the ".render" resource set
+ * in the "game.project" setting.
+ *
+ * @param material_id material id to enable
+ */
+export function enable_material(material_id: HashOrString): void {
+  lua.render.enable_material(0, material_id);
+}
+
+/**
+ * If a material is currently enabled, disable it.
+ *
+ * The name of the material must be specified in the ".render" resource set
+ * in the "game.project" setting.
+ */
+export function disable_material(): void {
+  lua.render.disable_material(0);
+}
+
+/**
+ * Specifies the arithmetic used when computing pixel values that are written to the frame
+ * buffer. In RGBA mode, pixels can be drawn using a function that blends the source RGBA
+ * pixel values with the destination pixel values already in the frame buffer.
+ * Blending is initially disabled.
+ *
+ * @param source_factor source factor
+ * @param destination_factor destination factor
+ */
+export function set_blend_func(source_factor: BLEND, destination_factor: BLEND): void {
+  lua.render.set_blend_func(0, source_factor, destination_factor);
+}
+
+/**
+ * Specifies whether the individual color components in the frame buffer is enabled for writing
+ * (`true`) or disabled (`false`). For example, if `blue` is `false`, nothing is written to the blue
+ * component of any pixel in any of the color buffers, regardless of the drawing operation attempted.
+ * Note that writing are either enabled or disabled for entire color components, not the
+ * individual bits of a component.
+ *
+ * The component masks are all initially `true`.
+ *
+ * @param red red mask
+ * @param green green mask
+ * @param blue blue mask
+ * @param alpha alpha mask
+ */
+export function set_color_mask(red: boolean, green: boolean, blue: boolean, alpha: boolean): void {
+  lua.render.set_color_mask(0, red, green, blue, alpha);
+}
+
+/**
+ * Specifies whether front- or back-facing polygons can be culled when polygon culling is enabled.
+ * Polygon culling is initially disabled.
+ *
+ * @param face_type face type
+ */
+export function set_cull_face(face_type: FACE): void {
+  lua.render.set_cull_face(0, face_type);
+}
+
+/**
+ * Specifies the function that should be used to compare each incoming pixel
+ * depth value with the value present in the depth buffer.
+ * The comparison is performed only if depth testing is enabled and specifies
+ * the conditions under which a pixel will be drawn.
+ *
+ * @param func depth test function
+ */
+export function set_depth_func(func: COMPARE_FUNC): void {
+  lua.render.set_depth_func(0, func);
+}
+
+/**
+ * Specifies whether the depth buffer is enabled for writing. The supplied mask governs
+ * if depth buffer writing is enabled (`true`) or disabled (`false`).
+ *
+ * The mask is initially `true`.
+ *
+ * @param depth depth mask
+ */
+export function set_depth_mask(depth: boolean): void {
+  lua.render.set_depth_mask(0, depth);
+}
+
+/**
+ * Sets the scale and units used to calculate depth values.
+ * If `render.STATE_POLYGON_OFFSET_FILL` is enabled, each fragment's depth value
+ * is offset from its interpolated value (depending on the depth value of the
+ * appropriate vertices). Polygon offset can be used when drawing decals, rendering
+ * hidden-line images etc.
+ *
+ * @param factor polygon offset factor
+ * @param units polygon offset units
+ */
+export function set_polygon_offset(factor: number, units: number): void {
+  lua.render.set_polygon_offset(0, factor, units);
+}
+
+/**
+ * Stenciling is similar to depth-buffering as it enables and disables drawing on a
+ * per-pixel basis. First, GL drawing primitives are drawn into the stencil planes.
+ * Second, geometry and images are rendered but using the stencil planes to mask out
+ * where to draw.
+ *
+ * The stencil test discards a pixel based on the outcome of a comparison between the
+ * reference value `ref` and the corresponding value in the stencil buffer.
+ *
+ * @param func stencil test function
+ * @param ref reference value for the stencil test
+ * @param mask mask that is ANDed with both the reference value and the stored stencil value when the test is done
+ */
+export function set_stencil_func(func: COMPARE_FUNC, ref: number, mask: number): void {
+  lua.render.set_stencil_func(0, func, ref, mask);
+}
+
+/**
+ * The stencil mask controls the writing of individual bits in the stencil buffer.
+ * The least significant `n` bits of the parameter `mask`, where `n` is the number of
+ * bits in the stencil buffer, specify the mask.
+ *
+ * Where a `1` bit appears in the mask, the corresponding
+ * bit in the stencil buffer can be written. Where a `0` bit appears in the mask,
+ * the corresponding bit in the stencil buffer is never written.
+ *
+ * The mask is initially all `1`'s.
+ *
+ * @param mask stencil mask
+ */
+export function set_stencil_mask(mask: number): void {
+  lua.render.set_stencil_mask(0, mask);
+}
+
+/**
+ * The stencil test discards a pixel based on the outcome of a comparison between the
+ * reference value `ref` and the corresponding value in the stencil buffer.
+ * To control the test, call `render.set_stencil_func`.
+ *
+ * This function takes three arguments that control what happens to the stored stencil
+ * value while stenciling is enabled. If the stencil test fails, no change is made to the
+ * pixel's color or depth buffers, and `sfail` specifies what happens to the stencil buffer
+ * contents.
+ *
+ * @param sfail action to take when the stencil test fails
+ * @param dpfail the stencil action when the stencil test passes
+ * @param dppass the stencil action when both the stencil test and the depth test pass, or when the stencil test passes and either there is no depth buffer or depth testing is not enabled
+ */
+export function set_stencil_op(sfail: STENCIL_OP, dpfail: STENCIL_OP, dppass: STENCIL_OP): void {
+  lua.render.set_stencil_op(0, sfail, dpfail, dppass);
+}
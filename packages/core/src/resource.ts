@@ -1,7 +1,9 @@
 // https://defold.com/ref/stable/resource/
 
+import { callback as async_callback, ScriptPromise } from './async';
 import { Buffer } from './buffer';
 import { HashOrString } from './builtins';
+import { register_wrapper, to_lua } from './lua';
 import { SelfData } from './support';
 
 declare type ResourceData = {};
@@ -10,6 +12,8 @@ export class ResourcePropertyBase {
   data: ResourceData;
 }
 
+register_wrapper(ResourcePropertyBase);
+
 export class AtlasResource extends ResourcePropertyBase {
   constructor() {
     super();
@@ -133,7 +137,7 @@ export function load(path: string): Buffer {
  * @param buffer The buffer of precreated data, suitable for the intended resource type
  */
 export function set(path: HashOrString, buffer: Buffer): void {
-  lua.resource.set(0, path, buffer.data);
+  lua.resource.set(0, path, to_lua(buffer));
 }
 
 /**
@@ -143,7 +147,7 @@ export function set(path: HashOrString, buffer: Buffer): void {
  * @param buffer The resource buffer
  */
 export function set_buffer(path: HashOrString, buffer: Buffer): void {
-  lua.resource.set_buffer(0, path, buffer.data);
+  lua.resource.set_buffer(0, path, to_lua(buffer));
 }
 
 /**
@@ -171,7 +175,7 @@ export interface TextureInfo {
  * @param buffer The buffer of precreated pixel data. (Currently, only 1 mipmap is generated.)
  */
 export function set_texture(path: HashOrString, table: TextureInfo, buffer: Buffer): void {
-  lua.resource.set_texture(0, path, table, buffer.data);
+  lua.resource.set_texture(0, path, to_lua(table), to_lua(buffer));
 }
 
 /**
@@ -193,9 +197,15 @@ type StoreManifestCallback = (self: SelfData, status: LIVEUPDATE_STATUS) => void
  * 
  * @param manifest_buffer the binary data that represents the manifest
  * @param callback the callback function executed once the engine has attempted to store the manifest.
+ * @returns a promise resolved with the status of the store operation
  */
-export function store_manifest(manifest_buffer: string, callback: StoreManifestCallback): void {
-  lua.resource.store_manifest(0, manifest_buffer, callback);
+export function store_manifest(manifest_buffer: string, callback?: StoreManifestCallback): Promise<LIVEUPDATE_STATUS> {
+  return new ScriptPromise<LIVEUPDATE_STATUS>((resolve) => {
+    lua.resource.store_manifest(0, manifest_buffer, async_callback((self: SelfData, status: LIVEUPDATE_STATUS) => {
+      if (callback) callback(self, status);
+      resolve(status);
+    }));
+  });
 }
 
 /**
@@ -215,7 +225,13 @@ type StoreResourceCallback = (self: SelfData, hexdigest: string, status: boolean
  * @param data The resource data that should be stored.
  * @param hexdigest The expected hash for the resource, retrieved through collectionproxy.missing_resources.
  * @param callback The callback function that is executed once the engine has been attempted to store the resource.
+ * @returns a promise resolved with whether or not the resource was successfully stored
  */
-export function store_resource(manifest_reference: number, data: string, hexdigest: string, callback: StoreResourceCallback): void {
-  lua.resource.store_resource(0, manifest_reference, data, hexdigest, callback);
+export function store_resource(manifest_reference: number, data: string, hexdigest: string, callback?: StoreResourceCallback): Promise<boolean> {
+  return new ScriptPromise<boolean>((resolve) => {
+    lua.resource.store_resource(0, manifest_reference, data, hexdigest, async_callback((self: SelfData, hexdigest: string, status: boolean) => {
+      if (callback) callback(self, hexdigest, status);
+      resolve(status);
+    }));
+  });
 }
@@ -0,0 +1,207 @@
+// https://defold.com/ref/stable/sound/
+
+import { Hash, HashOrString } from './builtins';
+import { array_from_lua, to_lua } from './lua';
+import { HashOrStringOrUrl, Url } from './msg';
+import { SelfData } from './support';
+
+/**
+ * This message is sent back to the sender of a `play_sound` message
+ * (or the caller of `sound.play`), if the sound could play to completion.
+ */
+export interface SoundDoneMessage {
+  /** id number supplied when the message was posted. */
+  play_id: number;
+}
+
+/**
+ * @param self The current object.
+ * @param message_id The name of the completion message, `"sound_done"`.
+ * @param message Information about the completion.
+ * @param sender The invoker of the callback: the sound component.
+ */
+type CompleteFunction = (self: SelfData, message_id: Hash, message: SoundDoneMessage, sender: Url) => void;
+
+/**
+ * Optional table with properties.
+ */
+export interface PlayProperties {
+  /** delay in seconds before the sound starts playing, default is 0. */
+  delay?: number;
+
+  /** sound gain between 0 and 1, default is 1. The final gain of the sound will be a combination of this gain, the group gain and the master gain. */
+  gain?: number;
+
+  /** sound pan between -1 and 1, default is 0. The final pan of the sound will be an addition of this pan and the sound pan. */
+  pan?: number;
+
+  /** sound speed where 1.0 is normal speed, 0.5 is half speed and 2.0 is double speed. The final speed of the sound will be a multiplication of this speed and the sound speed. */
+  speed?: number;
+}
+
+/**
+ * Make the sound component play its sound. Multiple voices are supported.
+ * The limit is set to 32 voices per sound component.
+ *
+ * Note that gain is in linear scale, between 0 and 1.
+ * To get the dB value from the gain, use the formula `20 * log(gain)`.
+ * Inversely, to find the linear value from a dB value, use the formula `10^(db/20)`.
+ *
+ * A sound will continue to play even if the game object the sound component belonged to is deleted.
+ * You can call `sound.stop()` to stop the sound.
+ *
+ * @param url the sound that should play
+ * @param play_properties optional table with properties
+ * @param complete_function function to call when the sound has finished playing.
+ * @returns The identifier for the sound voice
+ */
+export function play(url: HashOrStringOrUrl, play_properties?: PlayProperties, complete_function?: CompleteFunction): number {
+  return lua.sound.play(1, url, to_lua(play_properties), complete_function);
+}
+
+/**
+ * Stop playing all active voices or just one voice if `play_id` provided
+ *
+ * @param url the sound component that should stop
+ * @param play_id the sequential play identifier that should be stopped (was given by the `sound.play()` function)
+ */
+export function stop(url: HashOrStringOrUrl, play_id?: number): void {
+  if (play_id === undefined) {
+    lua.sound.stop(0, url);
+  } else {
+    lua.sound.stop(0, url, { play_id });
+  }
+}
+
+/**
+ * Pause all active voices
+ *
+ * @param url the sound that should pause
+ * @param pause true if the sound should pause
+ */
+export function pause(url: HashOrStringOrUrl, pause: boolean): void {
+  lua.sound.pause(0, url, pause);
+}
+
+/**
+ * Set gain on all active playing voices of a sound.
+ *
+ * Note that gain is in linear scale, between 0 and 1.
+ * To get the dB value from the gain, use the formula `20 * log(gain)`.
+ * Inversely, to find the linear value from a dB value, use the formula `10^(db/20)`.
+ *
+ * @param url the sound to set the gain of
+ * @param gain sound gain between 0 and 1. The final gain of the sound will be a combination of this gain, the group gain and the master gain.
+ */
+export function set_gain(url: HashOrStringOrUrl, gain?: number): void {
+  lua.sound.set_gain(0, url, gain);
+}
+
+/**
+ * Set panning on all active playing voices of a sound.
+ *
+ * The valid range is from -1.0 to 1.0, representing -45 degrees left, to +45 degrees right.
+ *
+ * @param url the sound to set the panning value to
+ * @param pan sound panning between -1.0 and 1.0
+ */
+export function set_pan(url: HashOrStringOrUrl, pan?: number): void {
+  lua.sound.set_pan(0, url, pan);
+}
+
+/**
+ * Get mixer group gain
+ *
+ * Note that gain is in linear scale, between 0 and 1.
+ * To get the dB value from the gain, use the formula `20 * log(gain)`.
+ * Inversely, to find the linear value from a dB value, use the formula `10^(db/20)`.
+ *
+ * @param group group name
+ * @returns gain in linear scale
+ */
+export function get_group_gain(group: HashOrString): number {
+  return lua.sound.get_group_gain(1, group);
+}
+
+/**
+ * Set mixer group gain
+ *
+ * Note that gain is in linear scale, between 0 and 1.
+ * To get the dB value from the gain, use the formula `20 * log(gain)`.
+ * Inversely, to find the linear value from a dB value, use the formula `10^(db/20)`.
+ *
+ * @param group group name
+ * @param gain gain in linear scale
+ */
+export function set_group_gain(group: HashOrString, gain: number): void {
+  lua.sound.set_group_gain(0, group, gain);
+}
+
+/**
+ * Get a table of all mixer group names (hashes).
+ *
+ * @returns array of mixer group names
+ */
+export function get_groups(): Hash[] {
+  return array_from_lua<Hash>(lua.sound.get_groups(1), (group) => group);
+}
+
+/**
+ * Get a mixer group name as a string.
+ *
+ * This function is to be used for debugging and development tooling only.
+ * The function does a reverse hash lookup, which does not return a proper string value
+ * when the game is built in release mode.
+ *
+ * @param group group name
+ * @returns group name
+ */
+export function get_group_name(group: HashOrString): string {
+  return lua.sound.get_group_name(1, group);
+}
+
+/**
+ * Get RMS (Root Mean Square) value from mixer group. This value is the square root of the
+ * mean (average) value of the squared function of the instantaneous values.
+ *
+ * For instance: for a sinewave signal with a peak gain of -1.94 dB (0.8 linear),
+ * the RMS is `0.8 × 1/sqrt(2)` which is about 0.566.
+ *
+ * Note the returned value might be an approximation and in particular the effective
+ * window might be larger than specified.
+ *
+ * @param group group name
+ * @param window window length in seconds
+ * @returns RMS value for left and right channel
+ */
+export function get_rms(group: HashOrString, window: number): [number, number] {
+  return lua.sound.get_rms(2, group, window);
+}
+
+/**
+ * Get peak value from mixer group.
+ *
+ * Note that gain is in linear scale, between 0 and 1.
+ * To get the dB value from the gain, use the formula `20 * log(gain)`.
+ * Inversely, to find the linear value from a dB value, use the formula `10^(db/20)`.
+ * Also note that the returned value might be an approximation and in particular the
+ * effective window might be larger than specified.
+ *
+ * @param group group name
+ * @param window window length in seconds
+ * @returns peak value for left and right channel
+ */
+export function get_peak(group: HashOrString, window: number): [number, number] {
+  return lua.sound.get_peak(2, group, window);
+}
+
+/**
+ * Checks if background music is playing, e.g. from iTunes.
+ *
+ * On non mobile platforms, this function always return `false`.
+ *
+ * @returns `true` if music is playing, otherwise `false`.
+ */
+export function is_music_playing(): boolean {
+  return lua.sound.is_music_playing(1);
+}
@@ -0,0 +1,112 @@
+// https://defold.com/ref/stable/sprite/
+
+import { Hash, HashOrString } from './builtins';
+import { to_lua } from './lua';
+import { HashOrStringOrUrl, Url } from './msg';
+import { SelfData } from './support';
+import { Vector4 } from './vmath';
+
+/**
+ * This message is sent to the sender of a `play_animation` message
+ * (or the caller of `sprite.play_flipbook`) when the animation has completed.
+ *
+ * Note that this message is sent only for animations that play with the following
+ * playback modes: Once Forward, Once Backward, Once Ping Pong.
+ */
+export interface AnimationDoneMessage {
+  /** the current tile of the sprite */
+  current_tile: number;
+
+  /** id of the animation that was completed */
+  id: Hash;
+}
+
+/**
+ * @param self The current object.
+ * @param message_id The name of the completion message, `"animation_done"`.
+ * @param message Information about the completion.
+ * @param sender The invoker of the callback: the sprite component.
+ */
+type CompleteFunction = (self: SelfData, message_id: Hash, message: AnimationDoneMessage, sender: Url) => void;
+
+/**
+ * Optional table with properties.
+ */
+export interface PlayProperties {
+  /** the normalized initial value of the animation cursor when the animation starts playing. */
+  offset?: number;
+
+  /** the rate with which the animation will be played. Must be positive. */
+  playback_rate?: number;
+}
+
+/**
+ * Play an animation on a sprite component from its tile set.
+ *
+ * An optional completion callback function can be provided that will be called when
+ * the animation has completed playing. If no function is provided,
+ * a `animation_done` message is sent to the script that started the animation.
+ *
+ * @param url the sprite that should play the animation
+ * @param id hashed id of the animation to play
+ * @param complete_function function to call when the animation has completed.
+ * @param play_properties optional table with properties
+ */
+export function play_flipbook(
+  url: HashOrStringOrUrl,
+  id: HashOrString,
+  complete_function?: CompleteFunction,
+  play_properties?: PlayProperties
+): void {
+  lua.sprite.play_flipbook(0, url, id, complete_function, to_lua(play_properties));
+}
+
+/**
+ * Resets a shader constant for a sprite component.
+ * The constant must be defined in the material assigned to the sprite.
+ * Resetting a constant through this function implies that the value defined in the material will be used.
+ *
+ * @param url the sprite that should have a constant reset
+ * @param constant name of the constant
+ */
+export function reset_constant(url: HashOrStringOrUrl, constant: HashOrString): void {
+  lua.sprite.reset_constant(0, url, constant);
+}
+
+/**
+ * Sets a shader constant for a sprite component.
+ * The constant must be defined in the material assigned to the sprite.
+ * Setting a constant through this function will override the value set for that constant in the material.
+ * The value will be overridden until sprite.reset_constant is called.
+ *
+ * @param url the sprite that should have a constant set
+ * @param constant name of the constant
+ * @param value value of the constant
+ */
+export function set_constant(url: HashOrStringOrUrl, constant: HashOrString, value: Vector4): void {
+  lua.sprite.set_constant(0, url, constant, to_lua(value));
+}
+
+/**
+ * Sets horizontal flipping of the provided sprite's animations.
+ * The sprite is identified by its urls.
+ * If the currently playing animation is flipped by default, flipping it again will make it appear like the original texture.
+ *
+ * @param url the sprite that should flip its animations
+ * @param flip `true` if the sprite should flip its animations, `false` if not
+ */
+export function set_hflip(url: HashOrStringOrUrl, flip: boolean): void {
+  lua.sprite.set_hflip(0, url, flip);
+}
+
+/**
+ * Sets vertical flipping of the provided sprite's animations.
+ * The sprite is identified by its urls.
+ * If the currently playing animation is flipped by default, flipping it again will make it appear like the original texture.
+ *
+ * @param url the sprite that should flip its animations
+ * @param flip `true` if the sprite should flip its animations, `false` if not
+ */
+export function set_vflip(url: HashOrStringOrUrl, flip: boolean): void {
+  lua.sprite.set_vflip(0, url, flip);
+}
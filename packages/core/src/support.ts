@@ -1,4 +1,8 @@
-import { hash, HashOrString, hash_to_hex } from './builtins';
+import * as async from './async';
+import { Hash, HashOrString } from './builtins';
+import * as hashes from './hashes';
+import { Url } from './msg';
+import { temp } from './vmath';
 
 export declare type SelfData = {};
 
@@ -133,12 +137,220 @@ export interface OnInputActionTouch {
   acc_z?: number;
 }
 
+/**
+ * The lifecycle functions a render script may export.
+ * All of them are optional, only the exported ones are forwarded by the render script glue.
+ */
+export interface RenderScript<Self = SelfData> {
+  /**
+   * Called when the render script is initialized.
+   *
+   * @param self reference to the script state to be used for storing data
+   */
+  init?(self: Self): void;
+
+  /**
+   * Called every frame to render the scene.
+   *
+   * @param self reference to the script state to be used for storing data
+   * @param dt the time-step of the frame update
+   */
+  update?(self: Self, dt: number): void;
+
+  /**
+   * Called when a message has been sent to the render script,
+   * e.g. `clear_color` or `set_view_projection`.
+   *
+   * @param self reference to the script state to be used for storing data
+   * @param message_id id of the received message
+   * @param message a table containing the message data
+   * @param sender address of the sender
+   */
+  on_message?(self: Self, message_id: Hash, message: any, sender: Url): void;
+
+  /**
+   * Called when the render script is reloaded.
+   *
+   * @param self reference to the script state to be used for storing data
+   */
+  on_reload?(self: Self): void;
+}
+
+/**
+ * Base class for class-based scripts. One instance is created per game object
+ * instance when the script is initialized, and kept alive until it is finalized,
+ * so state can live in class fields instead of the `self` table.
+ *
+ * Implement the lifecycle methods you need and export the functions returned by
+ * `script()` for the script glue to forward to:
+ *
+ *     class Spaceship extends Script {
+ *       velocity = new Vector3();
+ *       update(dt: number) { ... }
+ *     }
+ *
+ *     export const { init, final, update, on_message, on_input, on_reload } = script(Spaceship);
+ */
+export abstract class Script<Self = SelfData> {
+  /**
+   * The `self` table of the game object instance the script is attached to.
+   */
+  self: Self;
+
+  /**
+   * Called when a script component is initialized.
+   */
+  init?(): void;
+
+  /**
+   * Called when a script component is finalized.
+   */
+  final?(): void;
+
+  /**
+   * Called every frame to update the script component.
+   *
+   * @param dt the time-step of the frame update
+   */
+  update?(dt: number): void;
+
+  /**
+   * Called at a fixed interval to update the script component.
+   *
+   * @param dt the time-step of the fixed update
+   */
+  fixed_update?(dt: number): void;
+
+  /**
+   * Called when a message has been sent to the script component.
+   *
+   * @param message_id id of the received message
+   * @param message a table containing the message data
+   * @param sender address of the sender
+   */
+  on_message?(message_id: Hash, message: any, sender: Url): void;
+
+  /**
+   * Called when user input is received.
+   *
+   * @param action_id id of the received input action, as mapped in the input_binding-file
+   * @param action a table containing the input data
+   * @returns optional boolean to signal if the input should be consumed (not passed on to others) or not
+   */
+  on_input?(action_id: Hash, action: OnInputAction): boolean | void;
+
+  /**
+   * Called when the script component is reloaded.
+   */
+  on_reload?(): void;
+}
+
+/**
+ * The lifecycle functions forwarded by the script glue.
+ */
+export interface ScriptLifecycle<Self = SelfData> {
+  init(self: Self): void;
+  final(self: Self): void;
+  update(self: Self, dt: number): void;
+  fixed_update(self: Self, dt: number): void;
+  on_message(self: Self, message_id: Hash, message: any, sender: Url): void;
+  on_input(self: Self, action_id: Hash, action: OnInputAction): boolean | void;
+  on_reload(self: Self): void;
+}
+
+type ScriptSelf = { __script_id?: number };
+
+let next_script_id = 1;
+
+const scripts: { [id: number]: Script<any> } = {};
+
+// ids of the instances updated in the current frame, undefined before the first frame
+let updated: { [id: number]: boolean } | undefined;
+
+// The engine has no per-frame hook for scripts, so a frame is taken to begin when an
+// instance is updated a second time. The promise reactions and the pool of temporary
+// values are shared by every instance, so they are handled once per frame, not per instance.
+function begin_update(id: number): void {
+  if (updated === undefined || updated[id]) {
+    updated = {};
+    temp.reset();
+    async.update();
+  }
+  updated[id] = true;
+}
+
+/**
+ * Creates the lifecycle functions of a class-based script.
+ * `init` instantiates the class for the game object instance, the other functions
+ * forward to the methods of that instance and `final` releases it.
+ * `update` and `on_message` also drive the `async` helpers, so methods may await
+ * `async.waitSeconds`, `async.awaitMessage` and the like. Once per frame, before the
+ * first `update` of the frame, the queued promise reactions are run and the pool of
+ * `vmath.temp` values is reset.
+ *
+ * The instance is found again through an id stored in the `self` table,
+ * so `self.__script_id` must not be used by the script. Awaited messages are
+ * only resolved by the messages the instance receives, see `async.awaitMessage`.
+ *
+ * @param ScriptClass the script class
+ * @returns the lifecycle functions to export from the script
+ */
+export function script<Self>(ScriptClass: new () => Script<Self>): ScriptLifecycle<Self> {
+  // undefined when `init` threw or the `self` table was replaced, the engine callbacks then do nothing
+  const instance = (self: Self & ScriptSelf): Script<Self> | undefined =>
+    self.__script_id === undefined ? undefined : scripts[self.__script_id];
+  return {
+    init(self: Self & ScriptSelf) {
+      const id = next_script_id++;
+      const script = new ScriptClass();
+      script.self = self;
+      self.__script_id = id;
+      scripts[id] = script;
+      if (script.init) script.init();
+    },
+    final(self: Self & ScriptSelf) {
+      const script = instance(self);
+      if (script !== undefined && script.final) script.final();
+      async.final(self);
+      delete scripts[self.__script_id];
+    },
+    update(self: Self & ScriptSelf, dt) {
+      const script = instance(self);
+      if (script === undefined) return;
+      begin_update(self.__script_id);
+      if (script.update) script.update(dt);
+    },
+    fixed_update(self, dt) {
+      const script = instance(self);
+      if (script === undefined) return;
+      if (script.fixed_update) script.fixed_update(dt);
+    },
+    on_message(self, message_id, message, sender) {
+      const script = instance(self);
+      if (script === undefined) return;
+      async.on_message(self, message_id, message, sender);
+      if (script.on_message) script.on_message(message_id, message, sender);
+    },
+    on_input(self, action_id, action) {
+      const script = instance(self);
+      if (script === undefined) return;
+      if (script.on_input) return script.on_input(action_id, action);
+    },
+    on_reload(self) {
+      const script = instance(self);
+      if (script === undefined) return;
+      if (script.on_reload) script.on_reload();
+    },
+  };
+}
+
 /**
  * Check if two hashes (or hash and string) is the same.
+ * See `hashes.equals`.
  *
  * @param h1 first hash or string
  * @param h2 second hash or string
  */
 export function hasheq(h1: HashOrString, h2: HashOrString): boolean {
-  return hash_to_hex(hash(h1)) === hash_to_hex(hash(h2));
+  return hashes.equals(h1, h2);
 }
@@ -0,0 +1,262 @@
+// https://defold.com/ref/stable/sys/
+
+import { from_lua, to_lua } from './lua';
+
+export enum NETWORK {
+  /** network connected through other, non cellular, connection */
+  NETWORK_CONNECTED = lua.sys.NETWORK_CONNECTED,
+
+  /** network connected through mobile cellular */
+  NETWORK_CONNECTED_CELLULAR = lua.sys.NETWORK_CONNECTED_CELLULAR,
+
+  /** no network connection found */
+  NETWORK_DISCONNECTED = lua.sys.NETWORK_DISCONNECTED,
+}
+
+/**
+ * The table can later be loaded by `sys.load`.
+ * Use `sys.get_save_file` to obtain a valid location for the file.
+ * Internally, this function uses a workspace buffer sized output file sized 512kb.
+ * This size reflects the output file size which must not exceed this limit.
+ * Additionally, the total number of rows that any one table may contain is limited to 65536
+ * (i.e. a 16 bit range). When tables are used to represent arrays, the values of
+ * keys are permitted to fall within a 32 bit range, supporting sparse arrays, however
+ * the limit on the total number of rows remains in effect.
+ *
+ * Nested arrays are stored as Lua tables and restored as arrays by `sys.load`.
+ *
+ * @param filename file to write to
+ * @param table object to save
+ * @returns a boolean indicating if the table could be saved or not
+ */
+export function save(filename: string, table: object): boolean {
+  return lua.sys.save(1, filename, to_lua(table));
+}
+
+/**
+ * If the file exists, it must have been created by `sys.save` to be loaded.
+ *
+ * @param filename file to read from
+ * @returns loaded object, which is empty if the file could not be found
+ */
+export function load(filename: string): any {
+  return from_lua(lua.sys.load(1, filename));
+}
+
+/**
+ * The save-file path is operating system specific and is typically located under the user's home directory.
+ *
+ * @param application_id user defined id of the application, which helps define the location of the save-file
+ * @param file_name file-name to get path for
+ * @returns path to save-file
+ */
+export function get_save_file(application_id: string, file_name: string): string {
+  return lua.sys.get_save_file(1, application_id, file_name);
+}
+
+/**
+ * A table with system information.
+ */
+export interface SysInfo {
+  /** Only available on iOS and Android. */
+  device_model: string;
+
+  /** Only available on iOS and Android. */
+  manufacturer: string;
+
+  /** The system OS name: "Darwin", "Linux", "Windows", "HTML5", "Android" or "iPhone OS" */
+  system_name: string;
+
+  /** The system OS version. */
+  system_version: string;
+
+  /** The API version on the system. */
+  api_version: string;
+
+  /** Two character ISO-639 format, i.e. "en". */
+  language: string;
+
+  /** Two character ISO-639 format (i.e. "sr") and, if applicable, followed by a dash (-) and an ISO 15924 script code (i.e. "sr-Cyrl" or "sr-Latn"). Reflects the device preferred language. */
+  device_language: string;
+
+  /** Two character ISO-3166 format, i.e. "US". */
+  territory: string;
+
+  /** The current offset from GMT (Greenwich Mean Time), in minutes. */
+  gmt_offset: number;
+
+  /** "identifierForVendor" on iOS. "android_id" on Android. On Android, you need to add `READ_PHONE_STATE` permission to be able to get this data. We don't use this permission in Defold. */
+  device_ident: string;
+
+  /** The HTTP user agent, i.e. "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_11_6) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/52.0.2743.116 Safari/537.36" */
+  user_agent: string;
+}
+
+/**
+ * Optional options table
+ */
+export interface SysInfoOptions {
+  /** this flag ignores values might be secured by OS e.g. `device_ident` */
+  ignore_secure?: boolean;
+}
+
+/**
+ * Returns a table with system information.
+ *
+ * @param options optional options table
+ * @returns table with system information
+ */
+export function get_sys_info(options?: SysInfoOptions): SysInfo {
+  return from_lua(lua.sys.get_sys_info(1, to_lua(options)));
+}
+
+/**
+ * A table with engine information.
+ */
+export interface EngineInfo {
+  /** The current Defold engine version, i.e. "1.2.96" */
+  version: string;
+
+  /** The SHA1 for the current engine build, i.e. "0060183cce2e29dbd09c85ece83cbb72068ee050" */
+  version_sha1: string;
+
+  /** If the engine is a debug or release version */
+  is_debug: boolean;
+}
+
+/**
+ * Returns a table with engine information.
+ *
+ * @returns table with engine information
+ */
+export function get_engine_info(): EngineInfo {
+  return from_lua(lua.sys.get_engine_info(1));
+}
+
+/**
+ * A table with application information.
+ */
+export interface ApplicationInfo {
+  /** true if the application is installed, false otherwise. */
+  installed: boolean;
+}
+
+/**
+ * Returns a table with application information for the requested app.
+ *
+ * On iOS, the `app_string` is an url scheme for the app that is queried. Your
+ * game needs to list the schemes that are queried in an `LSApplicationQueriesSchemes` array
+ * in a custom "Info.plist".
+ *
+ * On Android, the `app_string` is the package identifier for the app.
+ *
+ * @param app_string platform specific string with application package or query, see above for details.
+ * @returns table with application information
+ */
+export function get_application_info(app_string: string): ApplicationInfo {
+  return from_lua(lua.sys.get_application_info(1, app_string));
+}
+
+/**
+ * Get config value from the game.project configuration file.
+ *
+ * @param key key to get value for. The syntax is SECTION.KEY
+ * @returns config value as a string. undefined if the config key doesn't exists
+ */
+export function get_config(key: string): string | undefined;
+
+/**
+ * Get config value from the game.project configuration file with default value
+ *
+ * @param key key to get value for. The syntax is SECTION.KEY
+ * @param default_value default value to return if the value does not exist
+ * @returns config value as a string. default_value if the config key does not exist
+ */
+export function get_config(key: string, default_value: string): string;
+
+export function get_config(key: string, default_value?: string): string | undefined {
+  return lua.sys.get_config(1, key, default_value);
+}
+
+/**
+ * Optional table with attributes
+ */
+export interface OpenUrlAttributes {
+  /** Optional. Specifies the target attribute or the name of the window. The following values are supported: `_self`, `_blank`, `_parent`, `_top` or a window name. (HTML5 only) */
+  target?: string;
+
+  /** Optional. Name of window. (HTML5 only) */
+  name?: string;
+}
+
+/**
+ * Open URL in default application, typically a browser
+ *
+ * @param url url to open
+ * @param attributes table with attributes
+ * @returns a boolean indicating if the url could be opened or not
+ */
+export function open_url(url: string, attributes?: OpenUrlAttributes): boolean {
+  return lua.sys.open_url(1, url, to_lua(attributes));
+}
+
+/**
+ * Terminates the game application and reports the specified `code` to the OS.
+ *
+ * @param code exit code to report to the OS, 0 means clean exit
+ */
+export function exit(code: number): void {
+  lua.sys.exit(0, code);
+}
+
+/**
+ * Reboots the game engine with a specified set of arguments.
+ * Arguments will be translated into command line arguments. Calling reboot
+ * function is equivalent to starting the engine with the same arguments.
+ *
+ * On startup the engine reads configuration from "game.project" in the
+ * project root.
+ *
+ * @param args up to 6 arguments, e.g. `"--config=bootstrap.main_collection=/my.collectionc"`
+ */
+export function reboot(...args: string[]): void {
+  lua.sys.reboot(0, ...args);
+}
+
+/**
+ * @param source the runtime context of the error. Currently, this is always `"lua"`.
+ * @param message the source file, line number and error message.
+ * @param traceback the stack traceback.
+ */
+type ErrorHandler = (source: string, message: string, traceback: string) => void;
+
+/**
+ * Set the Lua error handler function.
+ * The error handler is a function which is called whenever a lua runtime error occurs.
+ *
+ * @param error_handler the function to be called on error
+ */
+export function set_error_handler(error_handler: ErrorHandler): void {
+  lua.sys.set_error_handler(0, error_handler);
+}
+
+/**
+ * Returns the current network connectivity status
+ * on mobile platforms.
+ *
+ * On desktop, this function always return `sys.NETWORK_CONNECTED`.
+ *
+ * @returns network connectivity status
+ */
+export function get_connectivity(): NETWORK {
+  return lua.sys.get_connectivity(1);
+}
+
+/**
+ * Sets the host that is used to check for network connectivity against.
+ *
+ * @param host hostname to check against
+ */
+export function set_connectivity_host(host: string): void {
+  lua.sys.set_connectivity_host(0, host);
+}
@@ -0,0 +1,248 @@
+/// <reference lib="es2015.proxy" />
+
+// A scriptable fake of the `lua` global, so the wrappers and the scripts using
+// them can be imported and tested outside of the engine. Importing this module
+// installs the fake, so it must be imported before any other module of the package.
+
+/**
+ * A call made through the fake `lua` global.
+ */
+export interface LuaCall {
+  /** path of the called function, e.g. `"go.get_position"` or `"hash"` */
+  path: string;
+
+  /** number of values the caller expects back, the first argument of every bridge call */
+  nret: number;
+
+  /** the arguments following the return count */
+  args: any[];
+}
+
+type Implementation = (...args: any[]) => any;
+
+const USERDATA = '__userdata';
+
+/**
+ * Creates a value which the fake reports as userdata of the given kind,
+ * e.g. `userdata('vector3', { x: 1, y: 2, z: 3 })`.
+ *
+ * @param kind the kind of userdata: `"hash"`, `"url"`, `"vector"`, `"vector3"`, `"vector4"`, `"quat"` or `"matrix4"`
+ * @param fields the fields of the value
+ * @returns the userdata
+ */
+export function userdata<T extends object>(kind: string, fields: T): T {
+  Object.defineProperty(fields, USERDATA, { value: kind });
+  return fields;
+}
+
+function kind_of(value: any): string | undefined {
+  return value !== null && typeof value === 'object' ? value[USERDATA] : undefined;
+}
+
+function hex(s: string): string {
+  // FNV-1a, so the same string always gives the same hex and different strings rarely collide.
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = (h * 0x01000193) >>> 0;
+  }
+  return ('00000000' + h.toString(16)).slice(-8) + ('00000000' + s.length.toString(16)).slice(-8);
+}
+
+function vector(kind: string, names: string[], defaults: number[], args: any[]): any {
+  const fields = {};
+  if (args.length === 1 && typeof args[0] === 'object') {
+    names.forEach((name) => fields[name] = args[0][name]);
+  } else if (args.length === 1 && typeof args[0] === 'number') {
+    names.forEach((name) => fields[name] = args[0]);
+  } else {
+    names.forEach((name, index) => fields[name] = args[index] === undefined ? defaults[index] : args[index]);
+  }
+  return userdata(kind, fields);
+}
+
+function matrix(): any {
+  const fields = {};
+  for (let row = 0; row < 4; row++) {
+    for (let col = 0; col < 4; col++) {
+      fields[`m${row}${col}`] = row === col ? 1 : 0;
+    }
+  }
+  // the columns, as the engine exposes them
+  for (let col = 0; col < 4; col++) {
+    Object.defineProperty(fields, `c${col}`, {
+      get: () => userdata('vector4', { x: fields[`m0${col}`], y: fields[`m1${col}`], z: fields[`m2${col}`], w: fields[`m3${col}`] }),
+      set: (c) => ['x', 'y', 'z', 'w'].forEach((name, row) => fields[`m${row}${col}`] = c[name]),
+    });
+  }
+  return userdata('matrix4', fields);
+}
+
+// Implementations of the functions most wrappers depend on, so tests only stub what they check.
+const DEFAULTS: { [path: string]: Implementation } = {
+  'type': (value) => {
+    if (value === undefined || value === null) {
+      return 'nil';
+    } else if (kind_of(value) !== undefined) {
+      return 'userdata';
+    } else if (typeof value === 'object') {
+      return 'table';
+    }
+    return typeof value;
+  },
+  // tables whose keys are not strings, e.g. hashes, can be given as a `Map`
+  'next': (table, key) => {
+    const entries: [any, any][] = [];
+    if (table instanceof Map) {
+      table.forEach((value, k) => entries.push([k, value]));
+    } else {
+      Object.keys(table).forEach((k) => entries.push([k, table[k]]));
+    }
+    let index = 0;
+    if (key !== undefined) {
+      while (index < entries.length && entries[index][0] !== key) {
+        index++;
+      }
+      index++;
+    }
+    return index < entries.length ? entries[index] : [undefined, undefined];
+  },
+  'hash': (s) => typeof s === 'string' ? userdata('hash', { value: s }) : s,
+  'hash_to_hex': (h) => hex(h.value),
+  'types.is_hash': (value) => kind_of(value) === 'hash',
+  'types.is_url': (value) => kind_of(value) === 'url',
+  'types.is_vector3': (value) => kind_of(value) === 'vector3',
+  'types.is_vector4': (value) => kind_of(value) === 'vector4',
+  'types.is_quat': (value) => kind_of(value) === 'quat',
+  'types.is_matrix4': (value) => kind_of(value) === 'matrix4',
+  'types.is_vector': (value) => kind_of(value) === 'vector',
+  'sys.get_engine_info': () => ({ version: '0.0.0', version_sha1: '', is_debug: false }),
+  'vmath.vector3': (...args) => vector('vector3', ['x', 'y', 'z'], [0, 0, 0], args),
+  'vmath.vector4': (...args) => vector('vector4', ['x', 'y', 'z', 'w'], [0, 0, 0, 0], args),
+  'vmath.quat': (...args) => vector('quat', ['x', 'y', 'z', 'w'], [0, 0, 0, 1], args),
+  'vmath.matrix4': () => matrix(),
+  'vmath.vector': (table) => userdata('vector', { ...table }),
+};
+
+/**
+ * The fake `lua` global. Every function, e.g. `lua.go.get_position`, records its
+ * calls and returns what the test stubbed for it, or undefined.
+ * Constants, e.g. `lua.go.EASING_LINEAR`, are their own path (`"go.EASING_LINEAR"`)
+ * unless set with `set`, which must happen before the module reading them is imported.
+ */
+export class FakeLua {
+  /** every call, in order */
+  calls: LuaCall[] = [];
+
+  /** the object installed as the `lua` global */
+  readonly global: any;
+
+  private values: { [path: string]: any } = {};
+
+  private implementations: { [path: string]: Implementation } = {};
+
+  constructor() {
+    this.global = this.node('');
+  }
+
+  private node(path: string): any {
+    const depth = path === '' ? 0 : path.split('.').length;
+    const call = (nret: number, ...args: any[]) => this.call(path, nret, args);
+    return new Proxy(call, {
+      get: (target, key) => {
+        if (typeof key !== 'string' || depth === 2) {
+          return undefined;
+        } else if (key === 'apply' || key === 'call' || key === 'bind') {
+          // spread calls are compiled to `lua.print.apply(lua, [0].concat(args))`
+          return target[key];
+        }
+        const child = path === '' ? key : `${path}.${key}`;
+        if (this.values.hasOwnProperty(child)) {
+          return this.values[child];
+        } else if (/^[A-Z][A-Z0-9_]*$/.test(key)) {
+          return child;
+        }
+        return this.node(child);
+      },
+    });
+  }
+
+  private call(path: string, nret: number, args: any[]): any {
+    this.calls.push({ path, nret, args });
+    const implementation = this.implementations[path] || DEFAULTS[path];
+    return implementation !== undefined ? implementation(...args) : undefined;
+  }
+
+  /**
+   * Makes a function return a value.
+   *
+   * @param path path of the function, e.g. `"go.get_position"`
+   * @param value the value to return, an array for functions called with a return count of 2 or more
+   * @returns this fake
+   */
+  returns(path: string, value: any): this {
+    this.implementations[path] = () => value;
+    return this;
+  }
+
+  /**
+   * Makes a function run an implementation, which receives the arguments following the return count.
+   *
+   * @param path path of the function, e.g. `"go.get"`
+   * @param implementation the implementation
+   * @returns this fake
+   */
+  implement(path: string, implementation: Implementation): this {
+    this.implementations[path] = implementation;
+    return this;
+  }
+
+  /**
+   * Sets a value, e.g. a constant or a whole module, overriding the function at that path.
+   *
+   * @param path path of the value, e.g. `"go.EASING_LINEAR"` or `"gui"`
+   * @param value the value, undefined to make the path missing
+   * @returns this fake
+   */
+  set(path: string, value: any): this {
+    this.values[path] = value;
+    return this;
+  }
+
+  /**
+   * Returns the calls made to a function.
+   *
+   * @param path path of the function
+   * @returns the calls, in order
+   */
+  calls_to(path: string): LuaCall[] {
+    return this.calls.filter((call) => call.path === path);
+  }
+
+  /**
+   * Returns the last call made to a function.
+   *
+   * @param path path of the function
+   * @returns the call, or undefined if the function was not called
+   */
+  last_call(path: string): LuaCall | undefined {
+    const calls = this.calls_to(path);
+    return calls[calls.length - 1];
+  }
+
+  /**
+   * Forgets the recorded calls and the stubbed functions.
+   * Values set with `set` are kept, as modules read them when imported.
+   */
+  reset(): void {
+    this.calls = [];
+    this.implementations = {};
+  }
+}
+
+/**
+ * The fake installed as the `lua` global.
+ */
+export const fake = new FakeLua();
+
+Function('return this')().lua = fake.global;
@@ -0,0 +1,109 @@
+// https://defold.com/ref/stable/tilemap/
+
+import { HashOrString } from './builtins';
+import { HashOrStringOrUrl } from './msg';
+
+export enum TRANSFORM {
+  /** flip tile horizontally */
+  H_FLIP = lua.tilemap.H_FLIP,
+
+  /** flip tile vertically */
+  V_FLIP = lua.tilemap.V_FLIP,
+
+  /** rotate tile 90 degrees clockwise */
+  ROTATE_90 = lua.tilemap.ROTATE_90,
+
+  /** rotate tile 180 degrees clockwise */
+  ROTATE_180 = lua.tilemap.ROTATE_180,
+
+  /** rotate tile 270 degrees clockwise */
+  ROTATE_270 = lua.tilemap.ROTATE_270,
+}
+
+/**
+ * The bounds of a tile map, in tiles.
+ */
+export interface Bounds {
+  /** x coordinate of the bottom left corner */
+  x: number;
+
+  /** y coordinate of the bottom left corner */
+  y: number;
+
+  /** number of columns (width) in the tile map */
+  w: number;
+
+  /** number of rows (height) in the tile map */
+  h: number;
+}
+
+/**
+ * Get the bounds for a tile map. This function returns multiple values:
+ * The lower left corner index x and y coordinates (1-indexed),
+ * the tile map width and the tile map height.
+ *
+ * The resulting values take all tile map layers into account, meaning that
+ * the bounds are calculated as if all layers were collapsed into one.
+ *
+ * @param url the tile map
+ * @returns the bounds of the tile map
+ */
+export function get_bounds(url: HashOrStringOrUrl): Bounds {
+  const [x, y, w, h] = lua.tilemap.get_bounds(4, url);
+  return { x, y, w, h };
+}
+
+/**
+ * Get the tile set at the specified position in the tilemap.
+ * The position is identified by the tile index starting at origin
+ * with index 1, 1. (see `tilemap.set_tile()`)
+ * Which tile map and layer to query is identified by the URL and the
+ * layer name parameters.
+ *
+ * @param url the tile map
+ * @param layer name of the layer for the tile
+ * @param x x-coordinate of the tile
+ * @param y y-coordinate of the tile
+ * @returns index of the tile
+ */
+export function get_tile(url: HashOrStringOrUrl, layer: HashOrString, x: number, y: number): number {
+  return lua.tilemap.get_tile(1, url, layer, x, y);
+}
+
+/**
+ * Replace a tile in a tile map with a new tile.
+ * The coordinates of the tiles are indexed so that the "first" tile just
+ * above and to the right of origin has coordinates 1,1.
+ * Tiles to the left of and below origin are indexed 0, -1, -2 and so forth.
+ *
+ * The coordinates must be within the bounds of the tile map as it were created.
+ * That is, it is not possible to extend the size of a tile map by setting tiles outside the edges.
+ * To clear a tile, set the tile to number 0. Which tile map and layer to manipulate is identified
+ * by the URL and the layer name parameters.
+ *
+ * Transform bitmask is arithmetic sum of one or both FLIP constants
+ * (`tilemap.H_FLIP`, `tilemap.V_FLIP`) and/or one of ROTATION constants
+ * (`tilemap.ROTATE_90`, `tilemap.ROTATE_180`, `tilemap.ROTATE_270`).
+ * Flip always applies before rotation (clockwise).
+ *
+ * @param url the tile map
+ * @param layer name of the layer for the tile
+ * @param x x-coordinate of the tile
+ * @param y y-coordinate of the tile
+ * @param tile index of new tile to set. 0 resets the cell
+ * @param transform_bitmask optional flip and/or rotation should be applied to the tile
+ */
+export function set_tile(url: HashOrStringOrUrl, layer: HashOrString, x: number, y: number, tile: number, transform_bitmask?: TRANSFORM | number): void {
+  lua.tilemap.set_tile(0, url, layer, x, y, tile, transform_bitmask);
+}
+
+/**
+ * Sets the visibility of the tilemap layer
+ *
+ * @param url the tile map
+ * @param layer name of the layer for the tile
+ * @param visible should the layer be visible
+ */
+export function set_visible(url: HashOrStringOrUrl, layer: HashOrString, visible: boolean): void {
+  lua.tilemap.set_visible(0, url, layer, visible);
+}
@@ -0,0 +1,84 @@
+// https://defold.com/ref/stable/timer/
+
+import { from_lua } from './lua';
+import { SelfData } from './support';
+
+export type TimerHandle = number;
+
+/**
+ * Indicates an invalid timer handle
+ */
+export const INVALID_TIMER_HANDLE: TimerHandle = lua.timer.INVALID_TIMER_HANDLE;
+
+/**
+ * @param self The current object
+ * @param handle The handle of the timer
+ * @param time_elapsed The elapsed time - on first trigger it is time since timer.delay call, otherwise time since last trigger
+ */
+type TimerCallback = (self: SelfData, handle: TimerHandle, time_elapsed: number) => void;
+
+/**
+ * Adds a timer and returns a unique handle
+ *
+ * You may create more timers from inside a timer callback.
+ *
+ * Using a delay of 0 will result in a timer that triggers at the next frame just before
+ * script update functions.
+ *
+ * If you want a timer that triggers on each frame, set delay to 0.0f and repeat to true.
+ *
+ * Timers created within a script will automatically die when the script is deleted.
+ *
+ * @param delay time interval in seconds
+ * @param repeat true = repeat timer until cancel, false = one-shot timer
+ * @param callback timer callback function
+ * @returns handle identifier for the create timer, returns `timer.INVALID_TIMER_HANDLE` if the timer can not be created
+ */
+export function delay(delay: number, repeat: boolean, callback: TimerCallback): TimerHandle {
+  return lua.timer.delay(1, delay, repeat, callback);
+}
+
+/**
+ * You may cancel a timer from inside a timer callback.
+ * Cancelling a timer that is already executed or cancelled is safe.
+ *
+ * @param handle the timer handle returned by timer.delay()
+ * @returns if the timer was active, false if the timer is already cancelled / complete
+ */
+export function cancel(handle: TimerHandle): boolean {
+  return lua.timer.cancel(1, handle);
+}
+
+/**
+ * Manual triggering a callback for a timer.
+ *
+ * @param handle the timer handle returned by timer.delay()
+ * @returns if the timer was active, false if the timer is already cancelled / complete
+ */
+export function trigger(handle: TimerHandle): boolean {
+  return lua.timer.trigger(1, handle);
+}
+
+/**
+ * Information about a timer.
+ */
+export interface TimerInfo {
+  /** Time remaining until the next time a timer.delay() fires. */
+  time_remaining: number;
+
+  /** Time interval. */
+  delay: number;
+
+  /** true = repeat timer until cancel, false = one-shot timer. */
+  repeating: boolean;
+}
+
+/**
+ * Get information about timer.
+ *
+ * @param handle the timer handle returned by timer.delay()
+ * @returns information about the timer, or undefined if the timer is cancelled / complete
+ */
+export function get_info(handle: TimerHandle): TimerInfo | undefined {
+  return from_lua(lua.timer.get_info(1, handle));
+}
@@ -1,14 +1,364 @@
 // https://defold.com/ref/stable/vmath/
 
+// The classes of this module hold plain numbers and compute in JavaScript, so
+// math-heavy code never crosses the bridge. A Lua value is only created when
+// `data` is read, which `to_lua` does when a value is passed to the engine.
+// Wrapping a Lua value copies its components, so changing the wrapper leaves the
+// Lua value as it was; assign `data` back where the Lua value must change.
+// As `data` is a new Lua value on every read, it is typed read-only: change the
+// wrapper instead, since writing to `v.data.x` would be lost.
+
+// The weights of both ends of a spherical interpolation, given the cosine of the angle between them.
+function slerp_scales(t: number, cos_angle: number): [number, number] {
+  if (cos_angle < 0.999) {
+    const angle = Math.acos(Math.max(cos_angle, -1));
+    const sin_angle = Math.sin(angle);
+    return [Math.sin((1 - t) * angle) / sin_angle, Math.sin(t * angle) / sin_angle];
+  }
+  return [1 - t, t];
+}
+
+// The quaternion of a rotation matrix, given row by row.
+function quat_from_rotation(
+  m00: number, m01: number, m02: number,
+  m10: number, m11: number, m12: number,
+  m20: number, m21: number, m22: number
+): Quaternion {
+  const trace = m00 + m11 + m22;
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1);
+    return new Quaternion((m21 - m12) * s, (m02 - m20) * s, (m10 - m01) * s, 0.25 / s);
+  } else if (m00 > m11 && m00 > m22) {
+    const s = 2 * Math.sqrt(1 + m00 - m11 - m22);
+    return new Quaternion(0.25 * s, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s);
+  } else if (m11 > m22) {
+    const s = 2 * Math.sqrt(1 + m11 - m00 - m22);
+    return new Quaternion((m01 + m10) / s, 0.25 * s, (m12 + m21) / s, (m02 - m20) / s);
+  }
+  const s = 2 * Math.sqrt(1 + m22 - m00 - m11);
+  return new Quaternion((m02 + m20) / s, (m12 + m21) / s, 0.25 * s, (m10 - m01) / s);
+}
+
+export class Vector2 {
+  x: number;
+  y: number;
+
+  /** a new Lua vector3 with the components of this vector and z set to 0, as the engine has no 2D vectors */
+  get data(): Readonly<Vector3.Data> { return lua.vmath.vector3(1, this.x, this.y, 0); }
+  set data(data) { this.setFrom(data); }
+
+  /**
+   * Creates a new zero vector with all components set to 0.
+   *
+   * @returns new zero vector
+   */
+  constructor();
+
+  /**
+   * Creates a new vector with all components set to the supplied scalar value.
+   *
+   * @param n scalar value to splat
+   * @returns new vector
+   */
+  constructor(n: number);
+
+  /**
+   * Creates a new vector with the components set to the supplied values.
+   *
+   * @param x x coordinate
+   * @param y y coordinate
+   * @returns new vector
+   */
+  constructor(x: number, y: number);
+
+  /**
+   * Creates a new vector with the x and y components of the supplied vector.
+   * I.e. This function creates a copy of a Vector2 and drops the z of a Vector3.
+   * A Lua value is copied, so changing the new vector does not change it.
+   *
+   * @param v1 existing vector
+   * @returns new vector
+   */
+  constructor(v1: Vector2 | Vector3 | Vector2.Data | Vector3.Data);
+
+  constructor(x?: number | Vector2 | Vector3 | Vector2.Data | Vector3.Data, y?: number) {
+    if (x === undefined) {
+      this.set(0, 0);
+    } else if (typeof x === 'number') {
+      this.set(x, y === undefined ? x : y);
+    } else {
+      this.setFrom(x);
+    }
+  }
+
+  /**
+   * Returns the length of the supplied vector.
+   *
+   * If you are comparing the lengths of vectors, you should compare
+   * the length squared instead as it is slightly more efficient to calculate
+   * (it eliminates a square root calculation).
+   *
+   * @returns length
+   */
+  length(): number {
+    return Math.sqrt(this.length_sqr());
+  }
+
+  /**
+   * Returns the squared length of the supplied vector.
+   *
+   * @returns squared length
+   */
+  length_sqr(): number {
+    return this.x * this.x + this.y * this.y;
+  }
+
+  /**
+   * Normalizes a vector, i.e. returns a new vector with the same direction
+   * as the input vector, but with length 1.
+   *
+   * The length of the vector must be above 0, otherwise a division-by-zero will occur.
+   *
+   * @returns new nomalized vector
+   */
+  normalize(): Vector2 {
+    return Vector2.div(this, this.length());
+  }
+
+  /**
+   * Returns a new vector from the supplied vector that is rotated counterclockwise
+   * by the supplied angle.
+   *
+   * @param angle angle in radians
+   * @returns the rotated vector
+   */
+  rotate(angle: number): Vector2 {
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return new Vector2(this.x * c - this.y * s, this.x * s + this.y * c);
+  }
+
+  /**
+   * Creates a Vector3 with the components of this vector.
+   *
+   * @param z z coordinate, 0 by default
+   * @returns new vector
+   */
+  toVector3(z = 0): Vector3 {
+    return new Vector3(this.x, this.y, z);
+  }
+
+  /**
+   * Sets the components of this vector.
+   *
+   * @param x x coordinate
+   * @param y y coordinate
+   * @returns this vector
+   */
+  set(x: number, y: number): Vector2 {
+    this.x = x;
+    this.y = y;
+    return this;
+  }
+
+  /**
+   * Copies the x and y components of another vector into this vector.
+   *
+   * @param v1 vector to copy
+   * @returns this vector
+   */
+  setFrom(v1: Vector2 | Vector3 | Vector2.Data | Vector3.Data): Vector2 {
+    return this.set(v1.x, v1.y);
+  }
+
+  /**
+   * Adds a vector to this vector. Equals to `v = v + v1`
+   *
+   * @param v1 vector to add
+   * @returns this vector
+   */
+  addInPlace(v1: Vector2): Vector2 {
+    return this.set(this.x + v1.x, this.y + v1.y);
+  }
+
+  /**
+   * Subtracts a vector from this vector. Equals to `v = v - v1`
+   *
+   * @param v1 vector to subtract
+   * @returns this vector
+   */
+  subInPlace(v1: Vector2): Vector2 {
+    return this.set(this.x - v1.x, this.y - v1.y);
+  }
+
+  /**
+   * Multiplies this vector by a number. Equals to `v = v * n`
+   *
+   * @param n number to multiply by
+   * @returns this vector
+   */
+  scaleInPlace(n: number): Vector2 {
+    return this.set(this.x * n, this.y * n);
+  }
+
+  /**
+   * Normalizes this vector, i.e. keeps its direction but sets its length to 1.
+   *
+   * The length of the vector must be above 0, otherwise a division-by-zero will occur.
+   *
+   * @returns this vector
+   */
+  normalizeInPlace(): Vector2 {
+    return this.scaleInPlace(1 / this.length());
+  }
+}
+
+export namespace Vector2 {
+  export declare type Data = {
+    x: number;
+    y: number;
+  };
+
+  /**
+   * The 2D cross product, i.e. the z component of the cross product of
+   * both vectors with z set to 0. It is positive if `v2` is counterclockwise from `v1`.
+   *
+   * @param v1 first vector
+   * @param v2 second vector
+   * @returns the 2D cross product
+   */
+  export function cross(v1: Vector2, v2: Vector2): number {
+    return v1.x * v2.y - v1.y * v2.x;
+  }
+
+  /**
+   * The returned value is a scalar defined as:
+   * `P ⋅ Q = |P| |Q| cos θ`
+   * where θ is the angle between the vectors P and Q.
+   *
+   * @param v1 first vector
+   * @param v2 second vector
+   * @returns dot product
+   */
+  export function dot(v1: Vector2, v2: Vector2): number {
+    return v1.x * v2.x + v1.y * v2.y;
+  }
+
+  /**
+   * Linearly interpolate between two vectors.
+   *
+   * The function does not clamp t between 0 and 1.
+   *
+   * @param t interpolation parameter, 0-1
+   * @param v1 vector to lerp from
+   * @param v2 vector to lerp to
+   * @returns the lerped vector
+   */
+  export function lerp(t: number, v1: Vector2, v2: Vector2): Vector2 {
+    return new Vector2(v1.x + (v2.x - v1.x) * t, v1.y + (v2.y - v1.y) * t);
+  }
+
+  /**
+   * Spherically interpolates between two vectors. The direction of the returned vector
+   * is interpolated by the angle and the magnitude is interpolated between the magnitudes
+   * of the from and to vectors.
+   *
+   * The function does not clamp t between 0 and 1.
+   *
+   * @param t interpolation parameter, 0-1
+   * @param v1 vector to slerp from
+   * @param v2 vector to slerp to
+   * @returns the slerped vector
+   */
+  export function slerp(t: number, v1: Vector2, v2: Vector2): Vector2 {
+    const l1 = v1.length();
+    const l2 = v2.length();
+    const [s1, s2] = slerp_scales(t, Vector2.dot(v1, v2) / (l1 * l2));
+    return Vector2.mul(Vector2.add(Vector2.mul(v1, s1 / l1), Vector2.mul(v2, s2 / l2)), l1 + (l2 - l1) * t);
+  }
+
+  /**
+   * Performs an element wise multiplication between two vectors.
+   *
+   * @param v1 first vector
+   * @param v2 second vector
+   * @returns multiplied vector
+   */
+  export function mul_per_elem(v1: Vector2, v2: Vector2): Vector2 {
+    return new Vector2(v1.x * v2.x, v1.y * v2.y);
+  }
+
+  /**
+   * Calculates the extent the projection of the first vector onto the second.
+   * The returned value is a scalar p defined as:
+   * `p = |P| cos θ / |Q|`
+   * where θ is the angle between the vectors P and Q.
+   *
+   * @param v1 vector to be projected on the second
+   * @param v2 vector onto which the first will be projected, must not have zero length
+   * @returns the projected extent of the first vector onto the second
+   */
+  export function project(v1: Vector2, v2: Vector2): number {
+    return Vector2.dot(v1, v2) / v2.length_sqr();
+  }
+
+  /**
+   * Operators for Vector2. Since JavaScript does not have an operator
+   * overloading feature, we provide these helper functions.
+   */
+
+  /**
+   * Vector2 addition. Equals to `v1 + v2`
+   */
+  export function add(v1: Vector2, v2: Vector2): Vector2 {
+    return new Vector2(v1.x + v2.x, v1.y + v2.y);
+  }
+
+  /**
+   * Vector2 subtraction. Equals to `v1 - v2`
+   */
+  export function sub(v1: Vector2, v2: Vector2): Vector2 {
+    return new Vector2(v1.x - v2.x, v1.y - v2.y);
+  }
+
+  /**
+   * Vector2 negation. Equals to `-v1`
+   */
+  export function neg(v1: Vector2): Vector2 {
+    return new Vector2(-v1.x, -v1.y);
+  }
+
+  /**
+   * Vector2 multiplication. Equals to `v1 * n`
+   */
+  export function mul(v1: Vector2, n: number): Vector2 {
+    return new Vector2(v1.x * n, v1.y * n);
+  }
+
+  /**
+   * Vector2 division. Equals to `v1 / n`
+   */
+  export function div(v1: Vector2, n: number): Vector2 {
+    return Vector2.mul(v1, 1 / n);
+  }
+}
+
 export class Vector3 {
-  data: Vector3.Data;
+  x: number;
+  y: number;
+  z: number;
+
+  /** a new Lua vector3 with the components of this vector */
+  get data(): Readonly<Vector3.Data> { return lua.vmath.vector3(1, this.x, this.y, this.z); }
+  set data(data) { this.setFrom(data); }
 
-  get x(): number { return this.data.x; }
-  set x(x) { this.data.x = x; }
-  get y(): number { return this.data.y; }
-  set y(y) { this.data.y = y; }
-  get z(): number { return this.data.z; }
-  set z(z) { this.data.z = z; }
+  /** the x and y components, as a new Vector2 */
+  get xy(): Vector2 { return new Vector2(this.x, this.y); }
+  set xy(xy) { this.x = xy.x; this.y = xy.y; }
+
+  /** the x and z components, as a new Vector2 */
+  get xz(): Vector2 { return new Vector2(this.x, this.z); }
+  set xz(xz) { this.x = xz.x; this.z = xz.y; }
 
   /**
    * Creates a new zero vector with all components set to 0.
@@ -47,6 +397,7 @@ export class Vector3 {
   /**
    * Creates a new vector with all components set to the corresponding values
    * from the supplied vector. I.e. This function creates a copy of the given vector.
+   * A Lua value is copied, so changing the new vector does not change it.
    *
    * @param v1 existing vector
    * @returns new vector
@@ -54,10 +405,12 @@ export class Vector3 {
   constructor(v1: Vector3.Data);
 
   constructor(x?: number | Vector3 | Vector3.Data, y?: number, z?: number) {
-    if (typeof x === 'undefined' || typeof x === 'number' || x instanceof Vector3) {
-      this.data = lua.vmath.vector3(1, x, y, z);
+    if (x === undefined) {
+      this.set(0, 0, 0);
+    } else if (typeof x === 'number') {
+      this.set(x, y === undefined ? x : y, z === undefined ? x : z);
     } else {
-      this.data = x;
+      this.setFrom(x);
     }
   }
 
@@ -71,7 +424,7 @@ export class Vector3 {
    * @returns length
    */
   length(): number {
-    return lua.vmath.length(1, this.data);
+    return Math.sqrt(this.length_sqr());
   }
 
   /**
@@ -80,7 +433,7 @@ export class Vector3 {
    * @returns squared length
    */
   length_sqr(): number {
-    return lua.vmath.length_sqr(1, this.data);
+    return this.x * this.x + this.y * this.y + this.z * this.z;
   }
 
   /**
@@ -92,7 +445,7 @@ export class Vector3 {
    * @returns new nomalized vector
    */
   normalize(): Vector3 {
-    return new Vector3(lua.vmath.normalize(1, this.data));
+    return Vector3.div(this, this.length());
   }
 
   /**
@@ -103,7 +456,73 @@ export class Vector3 {
    * @returns the rotated vector
    */
   rotate(q: Quaternion): Vector3 {
-    return new Vector3(lua.vmath.rotate(1, q.data, this.data));
+    return q.rotate(this);
+  }
+
+  /**
+   * Sets the components of this vector.
+   *
+   * @param x x coordinate
+   * @param y y coordinate
+   * @param z z coordinate
+   * @returns this vector
+   */
+  set(x: number, y: number, z: number): Vector3 {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    return this;
+  }
+
+  /**
+   * Copies the components of another vector into this vector.
+   *
+   * @param v1 vector to copy
+   * @returns this vector
+   */
+  setFrom(v1: Vector3 | Vector3.Data): Vector3 {
+    return this.set(v1.x, v1.y, v1.z);
+  }
+
+  /**
+   * Adds a vector to this vector. Equals to `v = v + v1`
+   *
+   * @param v1 vector to add
+   * @returns this vector
+   */
+  addInPlace(v1: Vector3): Vector3 {
+    return this.set(this.x + v1.x, this.y + v1.y, this.z + v1.z);
+  }
+
+  /**
+   * Subtracts a vector from this vector. Equals to `v = v - v1`
+   *
+   * @param v1 vector to subtract
+   * @returns this vector
+   */
+  subInPlace(v1: Vector3): Vector3 {
+    return this.set(this.x - v1.x, this.y - v1.y, this.z - v1.z);
+  }
+
+  /**
+   * Multiplies this vector by a number. Equals to `v = v * n`
+   *
+   * @param n number to multiply by
+   * @returns this vector
+   */
+  scaleInPlace(n: number): Vector3 {
+    return this.set(this.x * n, this.y * n, this.z * n);
+  }
+
+  /**
+   * Normalizes this vector, i.e. keeps its direction but sets its length to 1.
+   *
+   * The length of the vector must be above 0, otherwise a division-by-zero will occur.
+   *
+   * @returns this vector
+   */
+  normalizeInPlace(): Vector3 {
+    return this.scaleInPlace(1 / this.length());
   }
 }
 
@@ -128,7 +547,11 @@ export namespace Vector3 {
    * @returns a new vector representing the cross product
    */
   export function cross(v1: Vector3, v2: Vector3): Vector3 {
-    return new Vector3(lua.vmath.cross(1, v1.data, v2.data));
+    return new Vector3(
+      v1.y * v2.z - v1.z * v2.y,
+      v1.z * v2.x - v1.x * v2.z,
+      v1.x * v2.y - v1.y * v2.x
+    );
   }
 
   /**
@@ -147,7 +570,7 @@ export namespace Vector3 {
    * @returns dot product
    */
   export function dot(v1: Vector3, v2: Vector3): number {
-    return lua.vmath.dot(1, v1.data, v2.data);
+    return v1.x * v2.x + v1.y * v2.y + v1.z * v2.z;
   }
 
   /**
@@ -163,7 +586,11 @@ export namespace Vector3 {
    * @returns the lerped vector
    */
   export function lerp(t: number, v1: Vector3, v2: Vector3): Vector3 {
-    return new Vector3(lua.vmath.lerp(1, t, v1.data, v2.data));
+    return new Vector3(
+      v1.x + (v2.x - v1.x) * t,
+      v1.y + (v2.y - v1.y) * t,
+      v1.z + (v2.z - v1.z) * t
+    );
   }
 
   /**
@@ -182,7 +609,10 @@ export namespace Vector3 {
    * @returns the slerped vector
    */
   export function slerp(t: number, v1: Vector3, v2: Vector3): Vector3 {
-    return new Vector3(lua.vmath.slerp(1, t, v1.data, v2.data));
+    const l1 = v1.length();
+    const l2 = v2.length();
+    const [s1, s2] = slerp_scales(t, Vector3.dot(v1, v2) / (l1 * l2));
+    return Vector3.mul(Vector3.add(Vector3.mul(v1, s1 / l1), Vector3.mul(v2, s2 / l2)), l1 + (l2 - l1) * t);
   }
 
   /**
@@ -195,7 +625,7 @@ export namespace Vector3 {
    * @returns multiplied vector
    */
   export function mul_per_elem(v1: Vector3, v2: Vector3): Vector3 {
-    return new Vector3(lua.vmath.mul_per_elem(1, v1.data, v2.data));
+    return new Vector3(v1.x * v2.x, v1.y * v2.y, v1.z * v2.z);
   }
 
   /**
@@ -209,7 +639,7 @@ export namespace Vector3 {
    * @returns the projected extent of the first vector onto the second
    */
   export function project(v1: Vector3, v2: Vector3): number {
-    return lua.vmath.project(1, v1.data, v2.data);
+    return Vector3.dot(v1, v2) / v2.length_sqr();
   }
 
   /**
@@ -241,29 +671,39 @@ export namespace Vector3 {
   /**
    * Vector3 multiplication. Equals to `v1 * n`
    */
-  export function mul(v1: Vector3, n: number) {
+  export function mul(v1: Vector3, n: number): Vector3 {
     return new Vector3(v1.x * n, v1.y * n, v1.z * n);
   }
 
   /**
    * Vector3 division. Equals to `v1 / n`
    */
-  export function div(v1: Vector3, n: number) {
+  export function div(v1: Vector3, n: number): Vector3 {
     return Vector3.mul(v1, 1 / n);
   }
 }
 
 export class Vector4 {
-  data: Vector4.Data;
+  x: number;
+  y: number;
+  z: number;
+  w: number;
 
-  get x(): number { return this.data.x; }
-  set x(x) { this.data.x = x; }
-  get y(): number { return this.data.y; }
-  set y(y) { this.data.y = y; }
-  get z(): number { return this.data.z; }
-  set z(z) { this.data.z = z; }
-  get w(): number { return this.data.w; }
-  set w(w) { this.data.w = w; }
+  /** a new Lua vector4 with the components of this vector */
+  get data(): Readonly<Vector4.Data> { return lua.vmath.vector4(1, this.x, this.y, this.z, this.w); }
+  set data(data) { this.setFrom(data); }
+
+  /** the x and y components, as a new Vector2 */
+  get xy(): Vector2 { return new Vector2(this.x, this.y); }
+  set xy(xy) { this.x = xy.x; this.y = xy.y; }
+
+  /** the x and z components, as a new Vector2 */
+  get xz(): Vector2 { return new Vector2(this.x, this.z); }
+  set xz(xz) { this.x = xz.x; this.z = xz.y; }
+
+  /** the x, y and z components, as a new Vector3 */
+  get xyz(): Vector3 { return new Vector3(this.x, this.y, this.z); }
+  set xyz(xyz) { this.x = xyz.x; this.y = xyz.y; this.z = xyz.z; }
 
   /**
    * Creates a new zero vector with all components set to 0.
@@ -303,6 +743,7 @@ export class Vector4 {
   /**
    * Creates a new vector with all components set to the corresponding values
    * from the supplied vector. I.e. This function creates a copy of the given vector.
+   * A Lua value is copied, so changing the new vector does not change it.
    *
    * @param v1 existing vector
    * @returns new vector
@@ -310,12 +751,15 @@ export class Vector4 {
   constructor(v1: Vector4.Data);
 
   constructor(x?: number | Vector4 | Vector4.Data, y?: number, z?: number, w?: number) {
-    if (typeof x === 'undefined' || typeof x === 'number' || x instanceof Vector4) {
-      this.data = lua.vmath.vector4(1, x, y, z, w);
+    if (x === undefined) {
+      this.set(0, 0, 0, 0);
+    } else if (typeof x === 'number') {
+      this.set(x, y === undefined ? x : y, z === undefined ? x : z, w === undefined ? x : w);
     } else {
-      this.data = x;
+      this.setFrom(x);
     }
   }
+
   /**
    * Returns the length of the supplied vector or quaternion.
    *
@@ -326,7 +770,7 @@ export class Vector4 {
    * @returns length
    */
   length(): number {
-    return lua.vmath.length(1, this.data);
+    return Math.sqrt(this.length_sqr());
   }
 
   /**
@@ -335,7 +779,7 @@ export class Vector4 {
    * @returns squared length
    */
   length_sqr(): number {
-    return lua.vmath.length_sqr(1, this.data);
+    return this.x * this.x + this.y * this.y + this.z * this.z + this.w * this.w;
   }
 
   /**
@@ -347,7 +791,75 @@ export class Vector4 {
    * @returns new nomalized vector
    */
   normalize(): Vector4 {
-    return new Vector4(lua.vmath.normalize(1, this.data));
+    return Vector4.div(this, this.length());
+  }
+
+  /**
+   * Sets the components of this vector.
+   *
+   * @param x x coordinate
+   * @param y y coordinate
+   * @param z z coordinate
+   * @param w w coordinate
+   * @returns this vector
+   */
+  set(x: number, y: number, z: number, w: number): Vector4 {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this.w = w;
+    return this;
+  }
+
+  /**
+   * Copies the components of another vector into this vector.
+   *
+   * @param v1 vector to copy
+   * @returns this vector
+   */
+  setFrom(v1: Vector4 | Vector4.Data): Vector4 {
+    return this.set(v1.x, v1.y, v1.z, v1.w);
+  }
+
+  /**
+   * Adds a vector to this vector. Equals to `v = v + v1`
+   *
+   * @param v1 vector to add
+   * @returns this vector
+   */
+  addInPlace(v1: Vector4): Vector4 {
+    return this.set(this.x + v1.x, this.y + v1.y, this.z + v1.z, this.w + v1.w);
+  }
+
+  /**
+   * Subtracts a vector from this vector. Equals to `v = v - v1`
+   *
+   * @param v1 vector to subtract
+   * @returns this vector
+   */
+  subInPlace(v1: Vector4): Vector4 {
+    return this.set(this.x - v1.x, this.y - v1.y, this.z - v1.z, this.w - v1.w);
+  }
+
+  /**
+   * Multiplies this vector by a number. Equals to `v = v * n`
+   *
+   * @param n number to multiply by
+   * @returns this vector
+   */
+  scaleInPlace(n: number): Vector4 {
+    return this.set(this.x * n, this.y * n, this.z * n, this.w * n);
+  }
+
+  /**
+   * Normalizes this vector, i.e. keeps its direction but sets its length to 1.
+   *
+   * The length of the vector must be above 0, otherwise a division-by-zero will occur.
+   *
+   * @returns this vector
+   */
+  normalizeInPlace(): Vector4 {
+    return this.scaleInPlace(1 / this.length());
   }
 }
 
@@ -375,7 +887,7 @@ export namespace Vector4 {
    * @returns dot product
    */
   export function dot(v1: Vector4, v2: Vector4): number {
-    return lua.vmath.dot(1, v1.data, v2.data);
+    return v1.x * v2.x + v1.y * v2.y + v1.z * v2.z + v1.w * v2.w;
   }
 
   /**
@@ -391,7 +903,12 @@ export namespace Vector4 {
    * @returns the lerped vector
    */
   export function lerp(t: number, v1: Vector4, v2: Vector4): Vector4 {
-    return new Vector4(lua.vmath.lerp(1, t, v1.data, v2.data));
+    return new Vector4(
+      v1.x + (v2.x - v1.x) * t,
+      v1.y + (v2.y - v1.y) * t,
+      v1.z + (v2.z - v1.z) * t,
+      v1.w + (v2.w - v1.w) * t
+    );
   }
 
   /**
@@ -410,7 +927,10 @@ export namespace Vector4 {
    * @returns the slerped vector
    */
   export function slerp(t: number, v1: Vector4, v2: Vector4): Vector4 {
-    return new Vector4(lua.vmath.slerp(1, t, v1.data, v2.data));
+    const l1 = v1.length();
+    const l2 = v2.length();
+    const [s1, s2] = slerp_scales(t, Vector4.dot(v1, v2) / (l1 * l2));
+    return Vector4.mul(Vector4.add(Vector4.mul(v1, s1 / l1), Vector4.mul(v2, s2 / l2)), l1 + (l2 - l1) * t);
   }
 
   /**
@@ -423,7 +943,7 @@ export namespace Vector4 {
    * @returns multiplied vector
    */
   export function mul_per_elem(v1: Vector4, v2: Vector4): Vector4 {
-    return new Vector4(lua.vmath.mul_per_elem(1, v1.data, v2.data));
+    return new Vector4(v1.x * v2.x, v1.y * v2.y, v1.z * v2.z, v1.w * v2.w);
   }
 
   /**
@@ -455,29 +975,39 @@ export namespace Vector4 {
   /**
    * Vector4 multiplication. Equals to `v1 * n`
    */
-  export function mul(v1: Vector4, n: number) {
+  export function mul(v1: Vector4, n: number): Vector4 {
     return new Vector4(v1.x * n, v1.y * n, v1.z * n, v1.w * n);
   }
 
   /**
    * Vector4 division. Equals to `v1 / n`
    */
-  export function div(v1: Vector4, n: number) {
+  export function div(v1: Vector4, n: number): Vector4 {
     return Vector4.mul(v1, 1 / n);
   }
 }
 
 export class Quaternion {
-  data: Quaternion.Data;
+  x: number;
+  y: number;
+  z: number;
+  w: number;
 
-  get x(): number { return this.data.x; }
-  set x(x) { this.data.x = x; }
-  get y(): number { return this.data.y; }
-  set y(y) { this.data.y = y; }
-  get z(): number { return this.data.z; }
-  set z(z) { this.data.z = z; }
-  get w(): number { return this.data.w; }
-  set w(w) { this.data.w = w; }
+  /** a new Lua quaternion with the components of this quaternion */
+  get data(): Readonly<Quaternion.Data> { return lua.vmath.quat(1, this.x, this.y, this.z, this.w); }
+  set data(data) { this.setFrom(data); }
+
+  /** the x and y components, as a new Vector2 */
+  get xy(): Vector2 { return new Vector2(this.x, this.y); }
+  set xy(xy) { this.x = xy.x; this.y = xy.y; }
+
+  /** the x and z components, as a new Vector2 */
+  get xz(): Vector2 { return new Vector2(this.x, this.z); }
+  set xz(xz) { this.x = xz.x; this.z = xz.y; }
+
+  /** the x, y and z components, as a new Vector3 */
+  get xyz(): Vector3 { return new Vector3(this.x, this.y, this.z); }
+  set xyz(xyz) { this.x = xyz.x; this.y = xyz.y; this.z = xyz.z; }
 
   /**
    * Creates a new identity quaternion. The identity quaternion is equal to:
@@ -509,16 +1039,20 @@ export class Quaternion {
   /**
    * Creates a new quaternion with all components set to the corresponding values
    * from the supplied quaternion. I.e. This function creates a copy of the given quaternion.
+   * A Lua value is copied, so changing the new quaternion does not change it.
+   *
    * @param q1 existing quaternion
    * @returns new quaternion
    */
   constructor(q1: Quaternion.Data);
 
   constructor(x?: number | Quaternion | Quaternion.Data, y?: number, z?: number, w?: number) {
-    if (typeof x === 'undefined' || typeof x === 'number' || x instanceof Quaternion) {
-      this.data = lua.vmath.quat(1, x, y, z, w);
+    if (x === undefined) {
+      this.set(0, 0, 0, 1);
+    } else if (typeof x === 'number') {
+      this.set(x, y, z, w);
     } else {
-      this.data = x;
+      this.setFrom(x);
     }
   }
 
@@ -531,8 +1065,9 @@ export class Quaternion {
    * @returns the conjugate
    */
   conj(): Quaternion {
-    return new Quaternion(lua.vmath.conj(1, this.data));
+    return new Quaternion(-this.x, -this.y, -this.z, this.w);
   }
+
   /**
    * Returns the length of the supplied vector or quaternion.
    *
@@ -543,7 +1078,7 @@ export class Quaternion {
    * @returns length
    */
   length(): number {
-    return lua.vmath.length(1, this.data);
+    return Math.sqrt(this.length_sqr());
   }
 
   /**
@@ -552,7 +1087,7 @@ export class Quaternion {
    * @returns squared length
    */
   length_sqr(): number {
-    return lua.vmath.length_sqr(1, this.data);
+    return this.x * this.x + this.y * this.y + this.z * this.z + this.w * this.w;
   }
 
   /**
@@ -564,7 +1099,7 @@ export class Quaternion {
    * @returns new nomalized vector
    */
   normalize(): Quaternion {
-    return new Quaternion(lua.vmath.normalize(1, this.data));
+    return new Quaternion(this).normalizeInPlace();
   }
 
   /**
@@ -574,10 +1109,95 @@ export class Quaternion {
    * @param v1 vector to rotate
    * @returns the rotated vector
    */
-  rotate(v1: Vector3): Vector3 {
-    return new Vector3(lua.vmath.rotate(1, this.data, v1.data));
+  rotate(v1: Vector3): Vector3 {
+    // v + w * t + q × t, where q is the vector part and t = 2 * (q × v)
+    const { x, y, z, w } = this;
+    const tx = 2 * (y * v1.z - z * v1.y);
+    const ty = 2 * (z * v1.x - x * v1.z);
+    const tz = 2 * (x * v1.y - y * v1.x);
+    return new Vector3(
+      v1.x + w * tx + y * tz - z * ty,
+      v1.y + w * ty + z * tx - x * tz,
+      v1.z + w * tz + x * ty - y * tx
+    );
+  }
+
+  /**
+   * Sets the components of this quaternion.
+   *
+   * @param x x coordinate
+   * @param y y coordinate
+   * @param z z coordinate
+   * @param w w coordinate
+   * @returns this quaternion
+   */
+  set(x: number, y: number, z: number, w: number): Quaternion {
+    this.x = x;
+    this.y = y;
+    this.z = z;
+    this.w = w;
+    return this;
+  }
+
+  /**
+   * Copies the components of another quaternion into this quaternion.
+   *
+   * @param q1 quaternion to copy
+   * @returns this quaternion
+   */
+  setFrom(q1: Quaternion | Quaternion.Data): Quaternion {
+    return this.set(q1.x, q1.y, q1.z, q1.w);
+  }
+
+  /**
+   * Adds a quaternion to this quaternion, component by component.
+   *
+   * @param q1 quaternion to add
+   * @returns this quaternion
+   */
+  addInPlace(q1: Quaternion): Quaternion {
+    return this.set(this.x + q1.x, this.y + q1.y, this.z + q1.z, this.w + q1.w);
+  }
+
+  /**
+   * Multiplies every component of this quaternion by a number.
+   *
+   * @param n number to multiply by
+   * @returns this quaternion
+   */
+  scaleInPlace(n: number): Quaternion {
+    return this.set(this.x * n, this.y * n, this.z * n, this.w * n);
+  }
+
+  /**
+   * Multiplies this quaternion by another one. Equals to `q = q * q1`,
+   * i.e. the rotation of `q1` is applied first.
+   *
+   * @param q1 quaternion to multiply by
+   * @returns this quaternion
+   */
+  mulInPlace(q1: Quaternion): Quaternion {
+    const { x: x1, y: y1, z: z1, w: w1 } = this;
+    const { x: x2, y: y2, z: z2, w: w2 } = q1;
+    return this.set(
+      w1 * x2 + x1 * w2 + y1 * z2 - z1 * y2,
+      w1 * y2 + y1 * w2 + z1 * x2 - x1 * z2,
+      w1 * z2 + z1 * w2 + x1 * y2 - y1 * x2,
+      w1 * w2 - x1 * x2 - y1 * y2 - z1 * z2
+    );
+  }
+
+  /**
+   * Normalizes this quaternion, i.e. sets its length to 1.
+   *
+   * The length of the quaternion must be above 0, otherwise a division-by-zero will occur.
+   *
+   * @returns this quaternion
+   */
+  normalizeInPlace(): Quaternion {
+    return this.scaleInPlace(1 / this.length());
   }
-};
+}
 
 export namespace Quaternion {
   export declare type Data = {
@@ -600,7 +1220,12 @@ export namespace Quaternion {
    * @returns the lerped quaternion
    */
   export function lerp(t: number, q1: Quaternion, q2: Quaternion): Quaternion {
-    return new Quaternion(lua.vmath.lerp(1, t, q1.data, q2.data));
+    return new Quaternion(
+      q1.x + (q2.x - q1.x) * t,
+      q1.y + (q2.y - q1.y) * t,
+      q1.z + (q2.z - q1.z) * t,
+      q1.w + (q2.w - q1.w) * t
+    );
   }
 
   /**
@@ -614,12 +1239,25 @@ export namespace Quaternion {
    * The function does not clamp t between 0 and 1.
    *
    * @param t interpolation parameter, 0-1
-   * @param q1 quaternion to slerp from
-   * @param q2 quaternion to slerp to
+   * @param v1 quaternion to slerp from
+   * @param v2 quaternion to slerp to
    * @returns the slerped quaternion
    */
   export function slerp(t: number, v1: Quaternion, v2: Quaternion): Quaternion {
-    return new Quaternion(lua.vmath.slerp(1, t, v1.data, v2.data));
+    let cos_angle = v1.x * v2.x + v1.y * v2.y + v1.z * v2.z + v1.w * v2.w;
+    let sign = 1;
+    if (cos_angle < 0) {
+      // q and -q describe the same rotation, take the shorter path
+      cos_angle = -cos_angle;
+      sign = -1;
+    }
+    const [s1, s2] = slerp_scales(t, cos_angle);
+    return new Quaternion(
+      v1.x * s1 + v2.x * s2 * sign,
+      v1.y * s1 + v2.y * s2 * sign,
+      v1.z * s1 + v2.z * s2 * sign,
+      v1.w * s1 + v2.w * s2 * sign
+    );
   }
 
   /**
@@ -632,7 +1270,7 @@ export namespace Quaternion {
    * @returns multiplied vector
    */
   export function mul_per_elem(v1: Quaternion, v2: Quaternion): Quaternion {
-    return new Quaternion(lua.vmath.mul_per_elem(1, v1.data, v2.data));
+    return new Quaternion(v1.x * v2.x, v1.y * v2.y, v1.z * v2.z, v1.w * v2.w);
   }
 
   /**
@@ -644,7 +1282,8 @@ export namespace Quaternion {
    * @returns quaternion representing the axis-angle rotation
    */
   export function axis_angle(v: Vector3, angle: number): Quaternion {
-    return new Quaternion(lua.vmath.quat_axis_angle(1, v.data, angle));
+    const s = Math.sin(angle / 2);
+    return new Quaternion(v.x * s, v.y * s, v.z * s, Math.cos(angle / 2));
   }
 
   /**
@@ -657,7 +1296,7 @@ export namespace Quaternion {
    * @returns quaternion representing the rotation of the specified base vectors
    */
   export function basis(x: Vector3, y: Vector3, z: Vector3): Quaternion {
-    return new Quaternion(lua.vmath.quat_basis(1, x.data, y.data, z.data));
+    return quat_from_rotation(x.x, y.x, z.x, x.y, y.y, z.y, x.z, y.z, z.z);
   }
 
   /**
@@ -671,7 +1310,9 @@ export namespace Quaternion {
    * @returns quaternion representing the rotation from first to second vector
    */
   export function from_to(v1: Vector3, v2: Vector3): Quaternion {
-    return new Quaternion(lua.vmath.quat_from_to(1, v1.data, v2.data));
+    const cos_half_angle_x2 = Math.sqrt(2 * (1 + Vector3.dot(v1, v2)));
+    const axis = Vector3.div(Vector3.cross(v1, v2), cos_half_angle_x2);
+    return new Quaternion(axis.x, axis.y, axis.z, cos_half_angle_x2 / 2);
   }
   
   /**
@@ -681,7 +1322,7 @@ export namespace Quaternion {
    * @returns quaternion representing the rotation around the x-axis
    */
   export function rotation_x(angle: number): Quaternion {
-    return new Quaternion(lua.vmath.quat_rotation_x(1, angle));
+    return new Quaternion(Math.sin(angle / 2), 0, 0, Math.cos(angle / 2));
   }
   
   /**
@@ -691,7 +1332,7 @@ export namespace Quaternion {
    * @returns quaternion representing the rotation around the y-axis
    */
   export function rotation_y(angle: number): Quaternion {
-    return new Quaternion(lua.vmath.quat_rotation_y(1, angle));
+    return new Quaternion(0, Math.sin(angle / 2), 0, Math.cos(angle / 2));
   }
   
   /**
@@ -701,7 +1342,7 @@ export namespace Quaternion {
    * @returns quaternion representing the rotation around the z-axis
    */
   export function rotation_z(angle: number): Quaternion {
-    return new Quaternion(lua.vmath.quat_rotation_z(1, angle));
+    return new Quaternion(0, 0, Math.sin(angle / 2), Math.cos(angle / 2));
   }
 
   /**
@@ -713,60 +1354,47 @@ export namespace Quaternion {
    * Quaternion multiplication. Equals to `q1 * q2`
    */
   export function mul(q1: Quaternion, q2: Quaternion): Quaternion {
-    const { x: x1, y: y1, z: z1, w: w1 } = q1;
-    const { x: x2, y: y2, z: z2, w: w2 } = q2;
-    return new Quaternion(
-      w1 * x2 + x1 * w2 + y1 * z2 - z1 * y2,
-      w1 * y2 + y1 * w2 + z1 * x2 - x1 * z2,
-      w1 * z2 + z1 * w2 + x1 * y2 - y1 * x2,
-      w1 * w2 - x1 * x2 - y1 * y2 - z1 * z2
-    );
+    return new Quaternion(q1).mulInPlace(q2);
   }
 }
 
 export class Matrix4 {
-  data: Matrix4.Data;
-
-  get c0(): Vector4 { return new Vector4(this.data.c0); }
-  set c0(c0) { this.data.c0 = c0; }
-  get c1(): Vector4 { return new Vector4(this.data.c1); }
-  set c1(c1) { this.data.c1 = c1; }
-  get c2(): Vector4 { return new Vector4(this.data.c2); }
-  set c2(c2) { this.data.c2 = c2; }
-  get c3(): Vector4 { return new Vector4(this.data.c3); }
-  set c3(c3) { this.data.c3 = c3; }
-  get m00(): number { return this.data.m00; }
-  set m00(m00) { this.data.m00 = m00; }
-  get m01(): number { return this.data.m01; }
-  set m01(m01) { this.data.m01 = m01; }
-  get m02(): number { return this.data.m02; }
-  set m02(m02) { this.data.m02 = m02; }
-  get m03(): number { return this.data.m03; }
-  set m03(m03) { this.data.m03 = m03; }
-  get m10(): number { return this.data.m10; }
-  set m10(m10) { this.data.m10 = m10; }
-  get m11(): number { return this.data.m11; }
-  set m11(m11) { this.data.m11 = m11; }
-  get m12(): number { return this.data.m12; }
-  set m12(m12) { this.data.m12 = m12; }
-  get m13(): number { return this.data.m13; }
-  set m13(m13) { this.data.m13 = m13; }
-  get m20(): number { return this.data.m20; }
-  set m20(m20) { this.data.m20 = m20; }
-  get m21(): number { return this.data.m21; }
-  set m21(m21) { this.data.m21 = m21; }
-  get m22(): number { return this.data.m22; }
-  set m22(m22) { this.data.m22 = m22; }
-  get m23(): number { return this.data.m23; }
-  set m23(m23) { this.data.m23 = m23; }
-  get m30(): number { return this.data.m30; }
-  set m30(m30) { this.data.m30 = m30; }
-  get m31(): number { return this.data.m31; }
-  set m31(m31) { this.data.m31 = m31; }
-  get m32(): number { return this.data.m32; }
-  set m32(m32) { this.data.m32 = m32; }
-  get m33(): number { return this.data.m33; }
-  set m33(m33) { this.data.m33 = m33; }
+  m00: number;
+  m01: number;
+  m02: number;
+  m03: number;
+  m10: number;
+  m11: number;
+  m12: number;
+  m13: number;
+  m20: number;
+  m21: number;
+  m22: number;
+  m23: number;
+  m30: number;
+  m31: number;
+  m32: number;
+  m33: number;
+
+  get c0(): Vector4 { return new Vector4(this.m00, this.m10, this.m20, this.m30); }
+  set c0(c0) { this.m00 = c0.x; this.m10 = c0.y; this.m20 = c0.z; this.m30 = c0.w; }
+  get c1(): Vector4 { return new Vector4(this.m01, this.m11, this.m21, this.m31); }
+  set c1(c1) { this.m01 = c1.x; this.m11 = c1.y; this.m21 = c1.z; this.m31 = c1.w; }
+  get c2(): Vector4 { return new Vector4(this.m02, this.m12, this.m22, this.m32); }
+  set c2(c2) { this.m02 = c2.x; this.m12 = c2.y; this.m22 = c2.z; this.m32 = c2.w; }
+  get c3(): Vector4 { return new Vector4(this.m03, this.m13, this.m23, this.m33); }
+  set c3(c3) { this.m03 = c3.x; this.m13 = c3.y; this.m23 = c3.z; this.m33 = c3.w; }
+
+  /** a new Lua matrix4 with the elements of this matrix */
+  get data(): Matrix4.ReadonlyData {
+    const data = lua.vmath.matrix4(1);
+    data.c0 = this.c0.data;
+    data.c1 = this.c1.data;
+    data.c2 = this.c2.data;
+    data.c3 = this.c3.data;
+    return data;
+  }
+  set data(data) { this.setFrom(data); }
 
   /**
    * The resulting identity matrix describes a transform with no translation or rotation.
@@ -787,6 +1415,7 @@ export class Matrix4 {
   /**
    * Creates a new matrix with all components set to the corresponding values
    * from the supplied matrix. I.e. the function creates a copy of the given matrix.
+   * A Lua value is copied, so changing the new matrix does not change it.
    *
    * @param m1 existing matrix
    * @returns matrix which is a copy of the specified matrix
@@ -796,16 +1425,15 @@ export class Matrix4 {
   constructor(c0: Vector4, c1: Vector4, c2: Vector4, c3: Vector4);
 
   constructor(x?: Matrix4 | Vector4 | Matrix4.Data, y?: Vector4, z?: Vector4, w?: Vector4) {
-    if (x instanceof Matrix4) {
-      this.data = lua.vmath.matrix4(1, x);
+    if (x === undefined) {
+      this.m00 = 1; this.m01 = 0; this.m02 = 0; this.m03 = 0;
+      this.m10 = 0; this.m11 = 1; this.m12 = 0; this.m13 = 0;
+      this.m20 = 0; this.m21 = 0; this.m22 = 1; this.m23 = 0;
+      this.m30 = 0; this.m31 = 0; this.m32 = 0; this.m33 = 1;
     } else if (x instanceof Vector4) {
-      this.data = lua.vmath.matrix4(1);
-      this.c0 = x;
-      this.c1 = y;
-      this.c2 = z;
-      this.c3 = w;
+      this.set(x, y, z, w);
     } else {
-      this.data = x;
+      this.setFrom(x);
     }
   }
 
@@ -819,7 +1447,52 @@ export class Matrix4 {
    * @returns inverse of the supplied matrix
    */
   inv(): Matrix4 {
-    return new Matrix4(lua.vmath.inv(1, this.data));
+    const {
+      m00, m01, m02, m03,
+      m10, m11, m12, m13,
+      m20, m21, m22, m23,
+      m30, m31, m32, m33
+    } = this;
+    // 2x2 sub-determinants of the upper and the lower two rows
+    const a0 = m00 * m11 - m01 * m10;
+    const a1 = m00 * m12 - m02 * m10;
+    const a2 = m00 * m13 - m03 * m10;
+    const a3 = m01 * m12 - m02 * m11;
+    const a4 = m01 * m13 - m03 * m11;
+    const a5 = m02 * m13 - m03 * m12;
+    const b0 = m20 * m31 - m21 * m30;
+    const b1 = m20 * m32 - m22 * m30;
+    const b2 = m20 * m33 - m23 * m30;
+    const b3 = m21 * m32 - m22 * m31;
+    const b4 = m21 * m33 - m23 * m31;
+    const b5 = m22 * m33 - m23 * m32;
+    const d = 1 / (a0 * b5 - a1 * b4 + a2 * b3 + a3 * b2 - a4 * b1 + a5 * b0);
+    return new Matrix4(
+      new Vector4(
+        (m11 * b5 - m12 * b4 + m13 * b3) * d,
+        (-m10 * b5 + m12 * b2 - m13 * b1) * d,
+        (m10 * b4 - m11 * b2 + m13 * b0) * d,
+        (-m10 * b3 + m11 * b1 - m12 * b0) * d
+      ),
+      new Vector4(
+        (-m01 * b5 + m02 * b4 - m03 * b3) * d,
+        (m00 * b5 - m02 * b2 + m03 * b1) * d,
+        (-m00 * b4 + m01 * b2 - m03 * b0) * d,
+        (m00 * b3 - m01 * b1 + m02 * b0) * d
+      ),
+      new Vector4(
+        (m31 * a5 - m32 * a4 + m33 * a3) * d,
+        (-m30 * a5 + m32 * a2 - m33 * a1) * d,
+        (m30 * a4 - m31 * a2 + m33 * a0) * d,
+        (-m30 * a3 + m31 * a1 - m32 * a0) * d
+      ),
+      new Vector4(
+        (-m21 * a5 + m22 * a4 - m23 * a3) * d,
+        (m20 * a5 - m22 * a2 + m23 * a1) * d,
+        (-m20 * a4 + m21 * a2 - m23 * a0) * d,
+        (m20 * a3 - m21 * a1 + m22 * a0) * d
+      )
+    );
   }
 
   /**
@@ -832,7 +1505,269 @@ export class Matrix4 {
    * @returns inverse of the supplied matrix
    */
   ortho_inv(): Matrix4 {
-    return new Matrix4(lua.vmath.ortho_inv(1, this.data));
+    // the transposed rotation, and the translation rotated back and negated
+    const {
+      m00, m01, m02, m03,
+      m10, m11, m12, m13,
+      m20, m21, m22, m23
+    } = this;
+    return new Matrix4(
+      new Vector4(m00, m01, m02, 0),
+      new Vector4(m10, m11, m12, 0),
+      new Vector4(m20, m21, m22, 0),
+      new Vector4(
+        -(m00 * m03 + m10 * m13 + m20 * m23),
+        -(m01 * m03 + m11 * m13 + m21 * m23),
+        -(m02 * m03 + m12 * m13 + m22 * m23),
+        1
+      )
+    );
+  }
+
+  /**
+   * Sets the columns of this matrix.
+   *
+   * @param c0 first column
+   * @param c1 second column
+   * @param c2 third column
+   * @param c3 fourth column
+   * @returns this matrix
+   */
+  set(c0: Vector4, c1: Vector4, c2: Vector4, c3: Vector4): Matrix4 {
+    this.c0 = c0;
+    this.c1 = c1;
+    this.c2 = c2;
+    this.c3 = c3;
+    return this;
+  }
+
+  /**
+   * Copies the elements of another matrix into this matrix.
+   *
+   * @param m1 matrix to copy
+   * @returns this matrix
+   */
+  setFrom(m1: Matrix4 | Matrix4.Data): Matrix4 {
+    this.m00 = m1.m00; this.m01 = m1.m01; this.m02 = m1.m02; this.m03 = m1.m03;
+    this.m10 = m1.m10; this.m11 = m1.m11; this.m12 = m1.m12; this.m13 = m1.m13;
+    this.m20 = m1.m20; this.m21 = m1.m21; this.m22 = m1.m22; this.m23 = m1.m23;
+    this.m30 = m1.m30; this.m31 = m1.m31; this.m32 = m1.m32; this.m33 = m1.m33;
+    return this;
+  }
+
+  /**
+   * Adds a matrix to this matrix, element by element.
+   *
+   * @param m1 matrix to add
+   * @returns this matrix
+   */
+  addInPlace(m1: Matrix4): Matrix4 {
+    this.m00 += m1.m00; this.m01 += m1.m01; this.m02 += m1.m02; this.m03 += m1.m03;
+    this.m10 += m1.m10; this.m11 += m1.m11; this.m12 += m1.m12; this.m13 += m1.m13;
+    this.m20 += m1.m20; this.m21 += m1.m21; this.m22 += m1.m22; this.m23 += m1.m23;
+    this.m30 += m1.m30; this.m31 += m1.m31; this.m32 += m1.m32; this.m33 += m1.m33;
+    return this;
+  }
+
+  /**
+   * Multiplies every element of this matrix by a number. Equals to `m = m * n`
+   *
+   * @param n number to multiply by
+   * @returns this matrix
+   */
+  scaleInPlace(n: number): Matrix4 {
+    this.m00 *= n; this.m01 *= n; this.m02 *= n; this.m03 *= n;
+    this.m10 *= n; this.m11 *= n; this.m12 *= n; this.m13 *= n;
+    this.m20 *= n; this.m21 *= n; this.m22 *= n; this.m23 *= n;
+    this.m30 *= n; this.m31 *= n; this.m32 *= n; this.m33 *= n;
+    return this;
+  }
+
+  /**
+   * Multiplies this matrix by another one. Equals to `m = m * m1`,
+   * i.e. the transform of `m1` is applied first.
+   *
+   * @param m1 matrix to multiply by
+   * @returns this matrix
+   */
+  mulInPlace(m1: Matrix4): Matrix4 {
+    const {
+      m00: a00, m01: a01, m02: a02, m03: a03,
+      m10: a10, m11: a11, m12: a12, m13: a13,
+      m20: a20, m21: a21, m22: a22, m23: a23,
+      m30: a30, m31: a31, m32: a32, m33: a33
+    } = this;
+    const {
+      m00: b00, m01: b01, m02: b02, m03: b03,
+      m10: b10, m11: b11, m12: b12, m13: b13,
+      m20: b20, m21: b21, m22: b22, m23: b23,
+      m30: b30, m31: b31, m32: b32, m33: b33
+    } = m1;
+    this.m00 = a00 * b00 + a01 * b10 + a02 * b20 + a03 * b30;
+    this.m01 = a00 * b01 + a01 * b11 + a02 * b21 + a03 * b31;
+    this.m02 = a00 * b02 + a01 * b12 + a02 * b22 + a03 * b32;
+    this.m03 = a00 * b03 + a01 * b13 + a02 * b23 + a03 * b33;
+    this.m10 = a10 * b00 + a11 * b10 + a12 * b20 + a13 * b30;
+    this.m11 = a10 * b01 + a11 * b11 + a12 * b21 + a13 * b31;
+    this.m12 = a10 * b02 + a11 * b12 + a12 * b22 + a13 * b32;
+    this.m13 = a10 * b03 + a11 * b13 + a12 * b23 + a13 * b33;
+    this.m20 = a20 * b00 + a21 * b10 + a22 * b20 + a23 * b30;
+    this.m21 = a20 * b01 + a21 * b11 + a22 * b21 + a23 * b31;
+    this.m22 = a20 * b02 + a21 * b12 + a22 * b22 + a23 * b32;
+    this.m23 = a20 * b03 + a21 * b13 + a22 * b23 + a23 * b33;
+    this.m30 = a30 * b00 + a31 * b10 + a32 * b20 + a33 * b30;
+    this.m31 = a30 * b01 + a31 * b11 + a32 * b21 + a33 * b31;
+    this.m32 = a30 * b02 + a31 * b12 + a32 * b22 + a33 * b32;
+    this.m33 = a30 * b03 + a31 * b13 + a32 * b23 + a33 * b33;
+    return this;
+  }
+
+  /**
+   * Returns a row of this matrix.
+   *
+   * @param index index of the row, from 0 to 3
+   * @returns the row
+   */
+  row(index: number): Vector4 {
+    switch (index) {
+      case 0: return new Vector4(this.m00, this.m01, this.m02, this.m03);
+      case 1: return new Vector4(this.m10, this.m11, this.m12, this.m13);
+      case 2: return new Vector4(this.m20, this.m21, this.m22, this.m23);
+      case 3: return new Vector4(this.m30, this.m31, this.m32, this.m33);
+      default: throw new RangeError(`row ${index} is out of bounds`);
+    }
+  }
+
+  /**
+   * Sets a row of this matrix.
+   *
+   * @param index index of the row, from 0 to 3
+   * @param v new row
+   * @returns this matrix
+   */
+  setRow(index: number, v: Vector4): Matrix4 {
+    switch (index) {
+      case 0: this.m00 = v.x; this.m01 = v.y; this.m02 = v.z; this.m03 = v.w; break;
+      case 1: this.m10 = v.x; this.m11 = v.y; this.m12 = v.z; this.m13 = v.w; break;
+      case 2: this.m20 = v.x; this.m21 = v.y; this.m22 = v.z; this.m23 = v.w; break;
+      case 3: this.m30 = v.x; this.m31 = v.y; this.m32 = v.z; this.m33 = v.w; break;
+      default: throw new RangeError(`row ${index} is out of bounds`);
+    }
+    return this;
+  }
+
+  /**
+   * The resulting matrix is the transpose of this matrix, i.e. its rows are the columns of this matrix.
+   *
+   * @returns transposed matrix
+   */
+  transpose(): Matrix4 {
+    return new Matrix4(this.row(0), this.row(1), this.row(2), this.row(3));
+  }
+
+  /**
+   * Returns the determinant of this matrix. A matrix with a determinant of 0 has no inverse,
+   * a negative determinant means the transform mirrors.
+   *
+   * @returns determinant
+   */
+  determinant(): number {
+    const {
+      m00, m01, m02, m03,
+      m10, m11, m12, m13,
+      m20, m21, m22, m23,
+      m30, m31, m32, m33
+    } = this;
+    return (m00 * m11 - m01 * m10) * (m22 * m33 - m23 * m32)
+      - (m00 * m12 - m02 * m10) * (m21 * m33 - m23 * m31)
+      + (m00 * m13 - m03 * m10) * (m21 * m32 - m22 * m31)
+      + (m01 * m12 - m02 * m11) * (m20 * m33 - m23 * m30)
+      - (m01 * m13 - m03 * m11) * (m20 * m32 - m22 * m30)
+      + (m02 * m13 - m03 * m12) * (m20 * m31 - m21 * m30);
+  }
+
+  /**
+   * Splits this matrix into the translation, rotation and scale it applies,
+   * e.g. the result of `go.get_world_transform`. The matrix must not be
+   * sheared or projective. A mirroring transform gets a negative x scale.
+   *
+   * @returns position, rotation and scale of the transform
+   */
+  decompose(): Matrix4.Transform {
+    const x = new Vector3(this.m00, this.m10, this.m20);
+    const y = new Vector3(this.m01, this.m11, this.m21);
+    const z = new Vector3(this.m02, this.m12, this.m22);
+    const scale = new Vector3(this.determinant() < 0 ? -x.length() : x.length(), y.length(), z.length());
+    x.scaleInPlace(1 / scale.x);
+    y.scaleInPlace(1 / scale.y);
+    z.scaleInPlace(1 / scale.z);
+    return {
+      position: new Vector3(this.m03, this.m13, this.m23),
+      rotation: quat_from_rotation(x.x, y.x, z.x, x.y, y.y, z.y, x.z, y.z, z.z),
+      scale,
+    };
+  }
+
+  /**
+   * Transforms a point, i.e. applies the whole transform including the translation.
+   * The result is divided by its w, so projection matrices can be used as well.
+   *
+   * @param v point to transform
+   * @returns transformed point
+   */
+  transformPoint(v: Vector3): Vector3 {
+    const { x, y, z } = v;
+    const w = this.m30 * x + this.m31 * y + this.m32 * z + this.m33;
+    return new Vector3(
+      (this.m00 * x + this.m01 * y + this.m02 * z + this.m03) / w,
+      (this.m10 * x + this.m11 * y + this.m12 * z + this.m13) / w,
+      (this.m20 * x + this.m21 * y + this.m22 * z + this.m23) / w
+    );
+  }
+
+  /**
+   * Transforms a direction, i.e. applies the transform without the translation.
+   * The result is not normalized.
+   *
+   * @param v direction to transform
+   * @returns transformed direction
+   */
+  transformDirection(v: Vector3): Vector3 {
+    const { x, y, z } = v;
+    return new Vector3(
+      this.m00 * x + this.m01 * y + this.m02 * z,
+      this.m10 * x + this.m11 * y + this.m12 * z,
+      this.m20 * x + this.m21 * y + this.m22 * z
+    );
+  }
+
+  /**
+   * Checks whether every element of this matrix is within `epsilon` of the corresponding
+   * element of another matrix.
+   *
+   * @param m1 matrix to compare with
+   * @param epsilon largest difference allowed between two elements, 1e-6 by default
+   * @returns whether the matrices are equal
+   */
+  equals(m1: Matrix4, epsilon = 1e-6): boolean {
+    const a = this.toArray();
+    const b = m1.toArray();
+    return a.every((value, index) => Math.abs(value - b[index]) <= epsilon);
+  }
+
+  /**
+   * Returns the elements of this matrix in column-major order, i.e. `m00, m10, m20, m30, m01, ...`,
+   * the layout used by shaders and most JavaScript libraries.
+   *
+   * @returns a new array with the 16 elements
+   */
+  toArray(): number[] {
+    return [
+      this.m00, this.m10, this.m20, this.m30,
+      this.m01, this.m11, this.m21, this.m31,
+      this.m02, this.m12, this.m22, this.m32,
+      this.m03, this.m13, this.m23, this.m33,
+    ];
   }
 }
 
@@ -860,6 +1795,60 @@ export namespace Matrix4 {
     m33: number;
   };
 
+  /**
+   * A Lua matrix4 as read from `Matrix4.data`, with read-only columns.
+   */
+  export declare type ReadonlyData = {
+    readonly [K in keyof Data]: Readonly<Data[K]>;
+  };
+
+  /**
+   * The parts of a transform, as returned by `decompose`.
+   */
+  export interface Transform {
+    position: Vector3;
+    rotation: Quaternion;
+    scale: Vector3;
+  }
+
+  /**
+   * The resulting matrix applies a scale, then a rotation, then a translation,
+   * like the transform of a game object.
+   *
+   * @param position translation
+   * @param rotation rotation
+   * @param scale scale, either uniform or per axis, 1 by default
+   * @returns transform matrix
+   */
+  export function compose(position: Vector3, rotation: Quaternion, scale: number | Vector3 = 1): Matrix4 {
+    const s = typeof scale === 'number' ? new Vector3(scale) : scale;
+    const m = Matrix4.from_quat(rotation);
+    m.m00 *= s.x; m.m10 *= s.x; m.m20 *= s.x;
+    m.m01 *= s.y; m.m11 *= s.y; m.m21 *= s.y;
+    m.m02 *= s.z; m.m12 *= s.z; m.m22 *= s.z;
+    m.m03 = position.x;
+    m.m13 = position.y;
+    m.m23 = position.z;
+    return m;
+  }
+
+  /**
+   * Creates a matrix from 16 elements in column-major order, as returned by `toArray`.
+   *
+   * @param array the elements
+   * @param offset index of the first element in the array, 0 by default
+   * @returns new matrix
+   */
+  export function fromArray(array: number[], offset = 0): Matrix4 {
+    const a = (index: number) => array[offset + index];
+    return new Matrix4(
+      new Vector4(a(0), a(1), a(2), a(3)),
+      new Vector4(a(4), a(5), a(6), a(7)),
+      new Vector4(a(8), a(9), a(10), a(11)),
+      new Vector4(a(12), a(13), a(14), a(15))
+    );
+  }
+
   /**
    * Constructs a frustum matrix from the given values.
    * The left, right, top and bottom coordinates of the view cone are
@@ -875,7 +1864,12 @@ export namespace Matrix4 {
    * @returns matrix representing the frustum
    */
   export function frustum(left: number, right: number, bottom: number, top: number, near: number, far: number): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_frustum(1, left, right, bottom, top, near, far));
+    return new Matrix4(
+      new Vector4(2 * near / (right - left), 0, 0, 0),
+      new Vector4(0, 2 * near / (top - bottom), 0, 0),
+      new Vector4((right + left) / (right - left), (top + bottom) / (top - bottom), -(far + near) / (far - near), -1),
+      new Vector4(0, 0, -2 * far * near / (far - near), 0)
+    );
   }
 
   /**
@@ -888,7 +1882,15 @@ export namespace Matrix4 {
    * @returns look-at matrix
    */
   export function look_at(eye: Vector3, look_at: Vector3, up: Vector3): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_look_at(1, eye, look_at, up));
+    const z = Vector3.sub(eye, look_at).normalize();
+    const x = Vector3.cross(up.normalize(), z).normalize();
+    const y = Vector3.cross(z, x);
+    return new Matrix4(
+      new Vector4(x.x, x.y, x.z, 0),
+      new Vector4(y.x, y.y, y.z, 0),
+      new Vector4(z.x, z.y, z.z, 0),
+      new Vector4(eye.x, eye.y, eye.z, 1)
+    ).ortho_inv();
   }
 
   /**
@@ -904,7 +1906,12 @@ export namespace Matrix4 {
    * @returns orthographic projection matrix
    */
   export function orthographic(left: number, right: number, bottom: number, top: number, near: number, far: number): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_orthographic(1, left, right, bottom, top, near, far));
+    return new Matrix4(
+      new Vector4(2 / (right - left), 0, 0, 0),
+      new Vector4(0, 2 / (top - bottom), 0, 0),
+      new Vector4(0, 0, -2 / (far - near), 0),
+      new Vector4(-(right + left) / (right - left), -(top + bottom) / (top - bottom), -(far + near) / (far - near), 1)
+    );
   }
 
   /**
@@ -918,7 +1925,13 @@ export namespace Matrix4 {
    * @returns perspective projection matrix
    */
   export function perspective(fov: number, aspect: number, near: number, far: number): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_perspective(1, fov, aspect, near, far));
+    const f = 1 / Math.tan(fov / 2);
+    return new Matrix4(
+      new Vector4(f / aspect, 0, 0, 0),
+      new Vector4(0, f, 0, 0),
+      new Vector4(0, 0, (far + near) / (near - far), -1),
+      new Vector4(0, 0, 2 * far * near / (near - far), 0)
+    );
   }
 
   /**
@@ -928,7 +1941,14 @@ export namespace Matrix4 {
    * @returns matrix from rotation around x-axis
    */
   export function rotation_x(angle: number): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_rotation_x(1, angle));
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return new Matrix4(
+      new Vector4(1, 0, 0, 0),
+      new Vector4(0, c, s, 0),
+      new Vector4(0, -s, c, 0),
+      new Vector4(0, 0, 0, 1)
+    );
   }
 
   /**
@@ -938,7 +1958,14 @@ export namespace Matrix4 {
    * @returns matrix from rotation around y-axis
    */
   export function rotation_y(angle: number): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_rotation_y(1, angle));
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return new Matrix4(
+      new Vector4(c, 0, -s, 0),
+      new Vector4(0, 1, 0, 0),
+      new Vector4(s, 0, c, 0),
+      new Vector4(0, 0, 0, 1)
+    );
   }
   
   /**
@@ -948,7 +1975,14 @@ export namespace Matrix4 {
    * @returns matrix from rotation around z-axis
    */
   export function rotation_z(angle: number): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_rotation_z(1, angle));
+    const c = Math.cos(angle);
+    const s = Math.sin(angle);
+    return new Matrix4(
+      new Vector4(c, s, 0, 0),
+      new Vector4(-s, c, 0, 0),
+      new Vector4(0, 0, 1, 0),
+      new Vector4(0, 0, 0, 1)
+    );
   }
 
   /**
@@ -959,7 +1993,13 @@ export namespace Matrix4 {
    * @returns matrix represented by quaternion
    */
   export function from_quat(q: Quaternion): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_from_quat(1, q.data));
+    const { x, y, z, w } = q;
+    return new Matrix4(
+      new Vector4(1 - 2 * (y * y + z * z), 2 * (x * y + w * z), 2 * (x * z - w * y), 0),
+      new Vector4(2 * (x * y - w * z), 1 - 2 * (x * x + z * z), 2 * (y * z + w * x), 0),
+      new Vector4(2 * (x * z + w * y), 2 * (y * z - w * x), 1 - 2 * (x * x + y * y), 0),
+      new Vector4(0, 0, 0, 1)
+    );
   }
 
   /**
@@ -969,7 +2009,11 @@ export namespace Matrix4 {
    * @returns matrix from the supplied position vector
    */
   export function translation(position: Vector3 | Vector4): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_translation(1, position.data));
+    const m = new Matrix4();
+    m.m03 = position.x;
+    m.m13 = position.y;
+    m.m23 = position.z;
+    return m;
   }
 
   /**
@@ -980,7 +2024,7 @@ export namespace Matrix4 {
    * @returns matrix represented by axis and angle
    */
   export function axis_angle(v: Vector3, angle: number): Matrix4 {
-    return new Matrix4(lua.vmath.matrix4_axis_angle(1, v.data, angle));
+    return Matrix4.from_quat(Quaternion.axis_angle(v, angle));
   }
 
   /**
@@ -999,18 +2043,14 @@ export namespace Matrix4 {
   export function mul(m1: Matrix4, m2: Matrix4): Matrix4;
 
   /**
-   * Matrix4 multiplication with Vector4. Equals to `m1 * v`
+   * Matrix4 multiplication with Vector4. Equals to `m1 * v`, i.e. the column
+   * vector `v` transformed by `m1`, like `vmath.matrix4 * vmath.vector4` in Lua.
    */
   export function mul(m1: Matrix4, v: Vector4): Vector4;
 
   export function mul(m1: Matrix4, xn: Matrix4 | Vector4 | number): Matrix4 | Vector4 {
     if (xn instanceof Matrix4) {
-      return new Matrix4(
-        Matrix4.mul(m1, xn.c0),
-        Matrix4.mul(m1, xn.c1),
-        Matrix4.mul(m1, xn.c2),
-        Matrix4.mul(m1, xn.c3)
-      )
+      return new Matrix4(m1).mulInPlace(xn);
     } else if (xn instanceof Vector4) {
       const {
         m00, m01, m02, m03,
@@ -1020,20 +2060,141 @@ export namespace Matrix4 {
       } = m1;
       const { x, y, z, w } = xn;
       return new Vector4(
-        m00 * x + m10 * y + m20 * z + m30 * w,
-        m01 * x + m11 * y + m21 * z + m31 * w,
-        m02 * x + m12 * y + m22 * z + m32 * w,
-        m03 * x + m13 * y + m23 * z + m33 * w
+        m00 * x + m01 * y + m02 * z + m03 * w,
+        m10 * x + m11 * y + m12 * z + m13 * w,
+        m20 * x + m21 * y + m22 * z + m23 * w,
+        m30 * x + m31 * y + m32 * z + m33 * w
       )
     } else {
-      return new Matrix4(
-        Vector4.mul(m1.c0, xn),
-        Vector4.mul(m1.c1, xn),
-        Vector4.mul(m1.c2, xn),
-        Vector4.mul(m1.c3, xn)
-      );
+      return new Matrix4(m1).scaleInPlace(xn);
+    }
+  }
+}
+
+export class VectorN {
+  private values: number[];
+
+  /** a new Lua vector with the elements of this vector */
+  get data(): Readonly<VectorN.Data> {
+    const table = {};
+    this.values.forEach((value, index) => table[index + 1] = value);
+    return lua.vmath.vector(1, table);
+  }
+
+  /**
+   * Creates a new vector with the supplied elements,
+   * or of the given size with all elements set to 0.
+   *
+   * @param values elements of the vector, or its size
+   * @returns new vector
+   */
+  constructor(values: number[] | number);
+
+  /**
+   * Creates a new vector with all elements set to the corresponding values
+   * from the supplied vector. I.e. This function creates a copy of the given vector.
+   * A Lua value is copied, so changing the new vector does not change it.
+   *
+   * @param v1 existing vector
+   * @returns new vector
+   */
+  constructor(v1: VectorN | VectorN.Data);
+
+  constructor(x: number | number[] | VectorN | VectorN.Data) {
+    if (typeof x === 'number') {
+      this.values = [];
+      for (let i = 0; i < x; i++) {
+        this.values.push(0);
+      }
+    } else if (x instanceof VectorN) {
+      this.values = x.toArray();
+    } else if (Array.isArray(x)) {
+      this.values = x.slice();
+    } else {
+      this.values = [];
+      for (let i = 1; x[i] !== undefined; i++) {
+        this.values.push(x[i]);
+      }
+    }
+  }
+
+  private check(index: number): void {
+    if (index < 0 || index >= this.values.length) {
+      throw new RangeError(`index ${index} is out of bounds, the size is ${this.values.length}`);
     }
   }
+
+  /** the number of elements */
+  get size(): number { return this.values.length; }
+
+  /**
+   * Returns an element. Indices start at 0, unlike in Lua.
+   *
+   * @param index index of the element, from 0 to `size - 1`
+   * @returns the element
+   */
+  get(index: number): number {
+    this.check(index);
+    return this.values[index];
+  }
+
+  /**
+   * Sets an element. Indices start at 0, unlike in Lua.
+   *
+   * @param index index of the element, from 0 to `size - 1`
+   * @param value new value of the element
+   * @returns this vector
+   */
+  set(index: number, value: number): VectorN {
+    this.check(index);
+    this.values[index] = value;
+    return this;
+  }
+
+  /**
+   * Calls a function for each element, in order.
+   *
+   * @param fn function receiving the element and its index
+   */
+  forEach(fn: (value: number, index: number) => void): void {
+    this.values.forEach((value, index) => fn(value, index));
+  }
+
+  /**
+   * Creates a new vector with the results of calling a function for each element.
+   *
+   * @param fn function receiving the element and its index
+   * @returns new vector
+   */
+  map(fn: (value: number, index: number) => number): VectorN {
+    return new VectorN(this.values.map((value, index) => fn(value, index)));
+  }
+
+  /**
+   * Returns the elements of this vector.
+   *
+   * @returns a new array with the elements
+   */
+  toArray(): number[] {
+    return this.values.slice();
+  }
+}
+
+export namespace VectorN {
+  export declare type Data = {
+    [index: number]: number;
+  };
+}
+
+/**
+ * Creates a vector of arbitrary size. The vector is initialized
+ * with numeric values from a table, or with zeros.
+ *
+ * @param values elements of the vector, or its size
+ * @returns new vector
+ */
+export function vector(values: number[] | number): VectorN {
+  return new VectorN(values);
 }
 
 /**
@@ -1048,9 +2209,14 @@ export namespace Matrix4 {
  * @returns the lerped number
  */
 export function lerp(t: number, v1: number, v2: number): number {
-  return lua.vmath.lerp(1, t, v1, v2);
+  return v1 + (v2 - v1) * t;
 }
 
+/**
+ * Vector2 addition. Equals to `v1 + v2`
+ */
+export function add(v1: Vector2, v2: Vector2): Vector2;
+
 /**
  * Vector3 addition. Equals to `v1 + v2`
  */
@@ -1062,7 +2228,13 @@ export function add(v1: Vector3, v2: Vector3): Vector3;
 export function add(v1: Vector4, v2: Vector4): Vector4;
 
 export function add(a: any, b: any): any {
-  if (a instanceof Vector3) {
+  if (a instanceof Vector2) {
+    if (b instanceof Vector2) {
+      return Vector2.add(a, b);
+    } else {
+      throw TypeError('Vector2 should add Vector2');
+    }
+  } else if (a instanceof Vector3) {
     if (b instanceof Vector3) {
       return Vector3.add(a, b);
     } else {
@@ -1079,6 +2251,11 @@ export function add(a: any, b: any): any {
   }
 }
 
+/**
+ * Vector2 subtraction. Equals to `v1 - v2`
+ */
+export function sub(v1: Vector2, v2: Vector2): Vector2;
+
 /**
  * Vector3 subtraction. Equals to `v1 + v2`
  */
@@ -1090,7 +2267,13 @@ export function sub(v1: Vector3, v2: Vector3): Vector3;
 export function sub(v1: Vector4, v2: Vector4): Vector4;
 
 export function sub(a: any, b: any): any {
-  if (a instanceof Vector3) {
+  if (a instanceof Vector2) {
+    if (b instanceof Vector2) {
+      return Vector2.sub(a, b);
+    } else {
+      throw TypeError('Vector2 should subtract Vector2');
+    }
+  } else if (a instanceof Vector3) {
     if (b instanceof Vector3) {
       return Vector3.sub(a, b);
     } else {
@@ -1107,6 +2290,11 @@ export function sub(a: any, b: any): any {
   }
 }
 
+/**
+ * Vector2 negation. Equals to `-v1`
+ */
+export function neg(v1: Vector2): Vector2;
+
 /**
  * Vector3 negation. Equals to `-v1`
  */
@@ -1118,7 +2306,9 @@ export function neg(v1: Vector3): Vector3;
 export function neg(v1: Vector4): Vector4;
 
 export function neg(a: any): any {
-  if (a instanceof Vector3) {
+  if (a instanceof Vector2) {
+    return Vector2.neg(a);
+  } else if (a instanceof Vector3) {
     return Vector3.neg(a);
   } else if (a instanceof Vector4) {
     return Vector4.neg(a);
@@ -1127,6 +2317,16 @@ export function neg(a: any): any {
   }
 }
 
+/**
+ * Vector2 multiplication. Equals to `v1 * n`
+ */
+export function mul(v1: Vector2, n: number): Vector2;
+
+/**
+ * Vector2 multiplication. Equals to `v1 * n`
+ */
+export function mul(n: number, v1: Vector2): Vector2;
+
 /**
  * Vector3 multiplication. Equals to `v1 * n`
  */
@@ -1168,17 +2368,25 @@ export function mul(n: number, m1: Matrix4): Matrix4;
 export function mul(m1: Matrix4, m2: Matrix4): Matrix4;
 
 /**
-* Matrix4 multiplication with Vector4. Equals to `m1 * v`
-*/
+ * Matrix4 multiplication with Vector4. Equals to `m1 * v`, i.e. the column
+ * vector `v` transformed by `m1`.
+ */
 export function mul(m1: Matrix4, v: Vector4): Vector4;
 
 /**
-* Matrix4 multiplication with Vector4. Equals to `m1 * v`
-*/
+ * Vector4 multiplication with Matrix4. Equals to `v * m1`, i.e. the row vector `v`
+ * times `m1`, which is the same as `transpose(m1) * v`.
+ */
 export function mul(v: Vector4, m1: Matrix4): Vector4;
 
 export function mul(a: any, b: any): any {
-  if (a instanceof Vector3) {
+  if (a instanceof Vector2) {
+    if (typeof b === 'number') {
+      return Vector2.mul(a, b);
+    } else {
+      throw TypeError('Vector2 should multiply number');
+    }
+  } else if (a instanceof Vector3) {
     if (typeof b === 'number') {
       return Vector3.mul(a, b);
     } else {
@@ -1186,7 +2394,7 @@ export function mul(a: any, b: any): any {
     }
   } else if (a instanceof Vector4) {
     if (b instanceof Matrix4) {
-      return Matrix4.mul(b, a);
+      return Matrix4.mul(b.transpose(), a);
     } else if (typeof b === 'number') {
       return Vector4.mul(a, b);
     } else {
@@ -1203,14 +2411,16 @@ export function mul(a: any, b: any): any {
       throw TypeError('Matrix4 should multiply Vector4, Matrix4 or number');
     }
   } else if (typeof a === 'number') {
-    if (b instanceof Vector3)  {
+    if (b instanceof Vector2) {
+      return Vector2.mul(b, a);
+    } else if (b instanceof Vector3) {
       return Vector3.mul(b, a);
     } else if (b instanceof Vector4) {
       return Vector4.mul(b, a);
     } else if (b instanceof Matrix4) {
       return Matrix4.mul(b, a);
     } else {
-      throw TypeError('number should multiply Vector3, Vector4 or Matrix4');
+      throw TypeError('number should multiply Vector2, Vector3, Vector4 or Matrix4');
     }
   } else if (a instanceof Quaternion) {
     if (b instanceof Quaternion) {
@@ -1223,6 +2433,11 @@ export function mul(a: any, b: any): any {
   }
 }
 
+/**
+ * Vector2 division. Equals to `v1 / n`
+ */
+export function div(v1: Vector2, n: number): Vector2;
+
 /**
  * Vector3 division. Equals to `v1 / n`
  */
@@ -1234,7 +2449,13 @@ export function div(v1: Vector3, n: number): Vector3;
 export function div(v1: Vector4, n: number): Vector4;
 
 export function div(a: any, b: any): any {
-  if (a instanceof Vector3) {
+  if (a instanceof Vector2) {
+    if (typeof b === 'number') {
+      return Vector2.div(a, b);
+    } else {
+      throw TypeError('Vector2 should divide number');
+    }
+  } else if (a instanceof Vector3) {
     if (typeof b === 'number') {
       return Vector3.div(a, b);
     } else {
@@ -1250,3 +2471,115 @@ export function div(a: any, b: any): any {
     throw TypeError('not supported');
   }
 }
+
+class Pool<T> {
+  private values: T[] = [];
+
+  private next = 0;
+
+  constructor(private create: () => T) {}
+
+  get(): T {
+    if (this.next === this.values.length) {
+      this.values.push(this.create());
+    }
+    return this.values[this.next++];
+  }
+
+  reset(): void {
+    this.next = 0;
+  }
+}
+
+/**
+ * Temporary values for math that runs every frame, so it does not allocate:
+ *
+ *     const velocity = vmath.temp.vector3().setFrom(input).scaleInPlace(speed);
+ *
+ * The values are reused once `temp.reset()` is called, so they must not be kept
+ * after the function which got them returns. Class-based scripts created with
+ * `script()` reset the pool before each `update`, other scripts call `temp.reset()`
+ * at the start of their `update`.
+ */
+export namespace temp {
+  const vector2s = new Pool(() => new Vector2());
+
+  const vector3s = new Pool(() => new Vector3());
+
+  const vector4s = new Pool(() => new Vector4());
+
+  const quats = new Pool(() => new Quaternion());
+
+  const matrix4s = new Pool(() => new Matrix4());
+
+  const identity = new Matrix4();
+
+  /**
+   * Returns a temporary vector with the components set to the supplied values.
+   *
+   * @param x x coordinate, 0 by default
+   * @param y y coordinate, 0 by default
+   * @returns a temporary vector
+   */
+  export function vector2(x = 0, y = 0): Vector2 {
+    return vector2s.get().set(x, y);
+  }
+
+  /**
+   * Returns a temporary vector with the components set to the supplied values.
+   *
+   * @param x x coordinate, 0 by default
+   * @param y y coordinate, 0 by default
+   * @param z z coordinate, 0 by default
+   * @returns a temporary vector
+   */
+  export function vector3(x = 0, y = 0, z = 0): Vector3 {
+    return vector3s.get().set(x, y, z);
+  }
+
+  /**
+   * Returns a temporary vector with the components set to the supplied values.
+   *
+   * @param x x coordinate, 0 by default
+   * @param y y coordinate, 0 by default
+   * @param z z coordinate, 0 by default
+   * @param w w coordinate, 0 by default
+   * @returns a temporary vector
+   */
+  export function vector4(x = 0, y = 0, z = 0, w = 0): Vector4 {
+    return vector4s.get().set(x, y, z, w);
+  }
+
+  /**
+   * Returns a temporary quaternion with the components set to the supplied values.
+   *
+   * @param x x coordinate, 0 by default
+   * @param y y coordinate, 0 by default
+   * @param z z coordinate, 0 by default
+   * @param w w coordinate, 1 by default
+   * @returns a temporary quaternion, the identity by default
+   */
+  export function quat(x = 0, y = 0, z = 0, w = 1): Quaternion {
+    return quats.get().set(x, y, z, w);
+  }
+
+  /**
+   * Returns a temporary identity matrix.
+   *
+   * @returns a temporary matrix
+   */
+  export function matrix4(): Matrix4 {
+    return matrix4s.get().setFrom(identity);
+  }
+
+  /**
+   * Makes every temporary value available again.
+   */
+  export function reset(): void {
+    vector2s.reset();
+    vector3s.reset();
+    vector4s.reset();
+    quats.reset();
+    matrix4s.reset();
+  }
+}
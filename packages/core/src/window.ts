@@ -0,0 +1,142 @@
+// https://defold.com/ref/stable/window/
+
+import { SelfData } from './support';
+
+export enum DIMMING {
+  /** Dimming mode is used to control whether or not a mobile device should dim the screen after a period without user interaction. */
+  DIMMING_OFF = lua.window.DIMMING_OFF,
+
+  /** Dimming mode is used to control whether or not a mobile device should dim the screen after a period without user interaction. */
+  DIMMING_ON = lua.window.DIMMING_ON,
+
+  /** Dimming mode is used to control whether or not a mobile device should dim the screen after a period without user interaction. This mode indicates that the dim mode can't be determined, or that the platform doesn't support dimming. */
+  DIMMING_UNKNOWN = lua.window.DIMMING_UNKNOWN,
+}
+
+export enum WINDOW_EVENT {
+  /** This event is sent to a window event listener when the game window or app screen is restored after being iconified. */
+  WINDOW_EVENT_DEICONIFIED = lua.window.WINDOW_EVENT_DEICONIFIED,
+
+  /** This event is sent to a window event listener when the game window or app screen has gained focus. This event is also sent at game startup and the engine gives focus to the game. */
+  WINDOW_EVENT_FOCUS_GAINED = lua.window.WINDOW_EVENT_FOCUS_GAINED,
+
+  /** This event is sent to a window event listener when the game window or app screen has lost focus. */
+  WINDOW_EVENT_FOCUS_LOST = lua.window.WINDOW_EVENT_FOCUS_LOST,
+
+  /** This event is sent to a window event listener when the game window or app screen is iconified (reduced to an application icon in a toolbar, application tray or similar). */
+  WINDOW_EVENT_ICONFIED = lua.window.WINDOW_EVENT_ICONFIED,
+
+  /** This event is sent to a window event listener when the game window or app screen is resized. The new size is passed along in the data field to the event listener. */
+  WINDOW_EVENT_RESIZED = lua.window.WINDOW_EVENT_RESIZED,
+}
+
+/**
+ * A window event, discriminated by its `type`.
+ * The raw engine constant is available as `event`. Events this module does not
+ * know of, e.g. ones added by a newer engine, have the type `unknown` and carry
+ * the data given by the engine.
+ */
+export type WindowEvent =
+  | { type: 'focus_lost'; event: WINDOW_EVENT }
+  | { type: 'focus_gained'; event: WINDOW_EVENT }
+  | { type: 'resized'; event: WINDOW_EVENT; width: number; height: number }
+  | { type: 'iconified'; event: WINDOW_EVENT }
+  | { type: 'deiconified'; event: WINDOW_EVENT }
+  | { type: 'unknown'; event: WINDOW_EVENT; data: { [key: string]: any } };
+
+function to_window_event(event: WINDOW_EVENT, data: { width?: number; height?: number; [key: string]: any }): WindowEvent {
+  switch (event) {
+    case WINDOW_EVENT.WINDOW_EVENT_FOCUS_LOST:
+      return { type: 'focus_lost', event };
+    case WINDOW_EVENT.WINDOW_EVENT_FOCUS_GAINED:
+      return { type: 'focus_gained', event };
+    case WINDOW_EVENT.WINDOW_EVENT_RESIZED:
+      return { type: 'resized', event, width: data.width, height: data.height };
+    case WINDOW_EVENT.WINDOW_EVENT_ICONFIED:
+      return { type: 'iconified', event };
+    case WINDOW_EVENT.WINDOW_EVENT_DEICONIFIED:
+      return { type: 'deiconified', event };
+    default:
+      return { type: 'unknown', event, data };
+  }
+}
+
+/**
+ * @param self The current object.
+ * @param event The window event.
+ */
+type WindowListener = (self: SelfData, event: WindowEvent) => void;
+
+/**
+ * Sets a window event listener.
+ *
+ * @param callback A callback which receives info about window events. Pass undefined to remove the listener.
+ */
+export function set_listener(callback?: WindowListener): void {
+  if (callback === undefined) {
+    lua.window.set_listener(0, undefined);
+  } else {
+    lua.window.set_listener(0, (self: SelfData, event: WINDOW_EVENT, data: { [key: string]: any }) => {
+      callback(self, to_window_event(event, data));
+    });
+  }
+}
+
+/**
+ * This returns the current window size (width and height).
+ *
+ * @returns the window width and height
+ */
+export function get_size(): [number, number] {
+  return lua.window.get_size(2);
+}
+
+/**
+ * Sets the dimming mode on a mobile device.
+ *
+ * The dimming mode specifies whether or not a mobile device should dim the screen after
+ * a period without user interaction. The dimming mode will only affect the mobile device
+ * while the game is in focus on the device, but not when the game is running in the background.
+ *
+ * This function has no effect on platforms that does not support dimming.
+ *
+ * @param mode The mode for screen dimming
+ */
+export function set_dim_mode(mode: DIMMING): void {
+  lua.window.set_dim_mode(0, mode);
+}
+
+/**
+ * Returns the current dimming mode set on a mobile device.
+ *
+ * The dimming mode specifies whether or not a mobile device should dim the screen after
+ * a period without user interaction.
+ *
+ * On platforms that does not support dimming, `window.DIMMING_UNKNOWN` is always returned.
+ *
+ * @returns The mode for screen dimming
+ */
+export function get_dim_mode(): DIMMING {
+  return lua.window.get_dim_mode(1);
+}
+
+/**
+ * Set the locking state for current mouse cursor on a PC platform.
+ *
+ * This function locks or unlocks the mouse cursor to the center point of the window.
+ * While the cursor is locked, mouse position updates will still be sent to the scripts as usual.
+ *
+ * @param flag The lock state for the mouse cursor
+ */
+export function set_mouse_lock(flag: boolean): void {
+  lua.window.set_mouse_lock(0, flag);
+}
+
+/**
+ * This returns the current lock state of the mouse cursor
+ *
+ * @returns The lock state
+ */
+export function get_mouse_lock(): boolean {
+  return lua.window.get_mouse_lock(1);
+}
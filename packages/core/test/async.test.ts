@@ -0,0 +1,78 @@
+import { fake } from '../src/testing';
+import * as async from '../src/async';
+import { hash } from '../src/builtins';
+
+beforeEach(() => fake.reset());
+
+test('reactions run when the queue is flushed', () => {
+  const resolved = jest.fn();
+  async.ScriptPromise.resolve(1).then((value) => value + 1).then(resolved);
+  expect(resolved).not.toHaveBeenCalled();
+  async.update();
+  expect(resolved).toHaveBeenCalledWith(2);
+});
+
+test('rejections reach catch and finally', () => {
+  const caught = jest.fn();
+  const finished = jest.fn();
+  async.ScriptPromise.reject(new Error('failed')).catch((e) => caught(e.message)).finally(finished);
+  async.flush();
+  expect(caught).toHaveBeenCalledWith('failed');
+  expect(finished).toHaveBeenCalled();
+});
+
+test('all collects the results in order', () => {
+  const resolved = jest.fn();
+  async.ScriptPromise.all([1, async.ScriptPromise.resolve(2), 3]).then(resolved);
+  async.flush();
+  expect(resolved).toHaveBeenCalledWith([1, 2, 3]);
+});
+
+test('waitSeconds resolves from the timer callback', () => {
+  const resolved = jest.fn();
+  async.waitSeconds(2).then(resolved);
+  const call = fake.last_call('timer.delay');
+  expect(call.args.slice(0, 2)).toEqual([2, false]);
+  call.args[2]({}, 1, 2);
+  expect(resolved).toHaveBeenCalled();
+});
+
+test('waitFrames resolves after the given number of frames', () => {
+  const resolved = jest.fn();
+  async.waitFrames(2).then(resolved);
+  const call = fake.last_call('timer.delay');
+  expect(call.args.slice(0, 2)).toEqual([0, true]);
+  call.args[2]({}, 5, 0);
+  expect(resolved).not.toHaveBeenCalled();
+  call.args[2]({}, 5, 0);
+  expect(resolved).toHaveBeenCalled();
+  expect(fake.last_call('timer.cancel').args).toEqual([5]);
+});
+
+test('awaitMessage resolves with the next message of that id', () => {
+  const self = {};
+  const resolved = jest.fn();
+  async.awaitMessage(self, 'score_changed').then(resolved);
+  expect(async.on_message(self, hash('other'), {}, undefined)).toBe(false);
+  expect(async.on_message(self, hash('score_changed'), { score: 3 }, undefined)).toBe(true);
+  expect(resolved).toHaveBeenCalledWith({ message_id: hash('score_changed'), message: { score: 3 }, sender: undefined });
+  expect(async.on_message(self, hash('score_changed'), { score: 4 }, undefined)).toBe(false);
+});
+
+test('awaitMessage only resolves from messages received by the same instance', () => {
+  const first = {};
+  const second = {};
+  const resolved = jest.fn();
+  async.awaitMessage(first, 'ping').then(resolved);
+  expect(async.on_message(second, hash('ping'), {}, undefined)).toBe(false);
+  expect(resolved).not.toHaveBeenCalled();
+  expect(async.on_message(first, hash('ping'), {}, undefined)).toBe(true);
+  expect(resolved).toHaveBeenCalled();
+});
+
+test('final forgets the messages an instance waits for', () => {
+  const self = {};
+  async.awaitMessage(self, 'ping');
+  async.final(self);
+  expect(async.on_message(self, hash('ping'), {}, undefined)).toBe(false);
+});
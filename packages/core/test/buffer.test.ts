@@ -0,0 +1,18 @@
+import { fake } from '../src/testing';
+import * as buffer from '../src/buffer';
+
+beforeEach(() => fake.reset());
+
+test('the declaration is converted to a table', () => {
+  fake.returns('buffer.create', { handle: 1 });
+  const b = new buffer.Buffer(4, [{ name: 'rgb', type: buffer.CONSTANT.VALUE_TYPE_UINT8, count: 3 }]);
+  expect(b.data).toEqual({ handle: 1 });
+  expect(fake.last_call('buffer.create').args).toEqual([4, { 1: { name: 'rgb', type: 'buffer.VALUE_TYPE_UINT8', count: 3 } }]);
+});
+
+test('copy_buffer unwraps the buffers', () => {
+  const dst = new buffer.Buffer({ handle: 1 });
+  const src = new buffer.Buffer({ handle: 2 });
+  buffer.copy_buffer(dst, 0, src, 4, 8);
+  expect(fake.last_call('buffer.copy_buffer')).toEqual({ path: 'buffer.copy_buffer', nret: 0, args: [dst.data, 0, src.data, 4, 8] });
+});
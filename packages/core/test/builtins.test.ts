@@ -0,0 +1,24 @@
+import { fake, userdata } from '../src/testing';
+import { hash, hash_to_hex, pprint } from '../src/builtins';
+
+beforeEach(() => fake.reset());
+
+test('hash returns hashes unchanged', () => {
+  const h = userdata('hash', { value: 'engine' });
+  expect(hash(h)).toBe(h);
+  expect(fake.calls_to('hash')).toHaveLength(0);
+});
+
+test('hash_to_hex does not cross the bridge for cached hashes', () => {
+  const h = hash('builtins');
+  fake.reset();
+  expect(hash_to_hex(h)).toHaveLength(16);
+  expect(fake.calls_to('hash_to_hex')).toHaveLength(0);
+});
+
+test('pprint shows the names of known hashes in debug builds', () => {
+  fake.returns('sys.get_engine_info', { is_debug: true });
+  const h = hash('player');
+  pprint({ id: h, ids: [h], count: 1 });
+  expect(fake.last_call('pprint').args).toEqual([{ id: 'hash: [player]', ids: ['hash: [player]'], count: 1 }]);
+});
@@ -0,0 +1,51 @@
+import { fake } from '../src/testing';
+import * as camera from '../src/camera';
+import { Matrix4, Quaternion, Vector3 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('focus is acquired and released through messages', () => {
+  camera.acquire_focus('#camera');
+  camera.release_focus('#camera');
+  expect(fake.calls_to('msg.post').map((call) => call.args)).toEqual([
+    ['#camera', 'acquire_camera_focus'],
+    ['#camera', 'release_camera_focus'],
+  ]);
+});
+
+test('set_camera posts the camera settings', () => {
+  camera.set_camera('#camera', { aspect_ratio: 1.5, fov: 0.8, near_z: 0.1, far_z: 100 });
+  expect(fake.last_call('msg.post').args).toEqual(['#camera', 'set_camera', { aspect_ratio: 1.5, fov: 0.8, near_z: 0.1, far_z: 100 }]);
+});
+
+test('lens properties are read and written with go.get and go.set', () => {
+  fake.returns('go.get', 0.5);
+  expect(camera.get_fov('#camera')).toBe(0.5);
+  camera.set_far_z('#camera', 1000);
+  expect(fake.last_call('go.get').args).toEqual(['#camera', 'fov']);
+  expect(fake.last_call('go.set').args).toEqual(['#camera', 'far_z', 1000]);
+});
+
+test('view inverts a scaled world transform', () => {
+  const world = Matrix4.compose(new Vector3(10, 20, 30), Quaternion.rotation_z(0.5), new Vector3(2, 3, 4));
+  fake.returns('go.get_world_transform', world.data);
+  expect(Matrix4.mul(camera.view('#camera'), world).equals(new Matrix4())).toBe(true);
+});
+
+test('screen_to_world and world_to_screen are inverse of each other', () => {
+  const view = Matrix4.compose(new Vector3(5, -3, 10), Quaternion.rotation_y(0.3)).inv();
+  const projection = Matrix4.perspective(Math.PI / 4, 960 / 640, 0.1, 100);
+  const world = camera.screen_to_world(200, 500, view, projection, 960, 640, 0.5);
+  const screen = camera.world_to_screen(world, view, projection, 960, 640);
+  expect(screen.x).toBeCloseTo(200);
+  expect(screen.y).toBeCloseTo(500);
+  expect(screen.z).toBeCloseTo(0.5);
+});
+
+test('world_to_screen projects the point the camera looks at to the center', () => {
+  const view = Matrix4.look_at(new Vector3(0, 0, 10), new Vector3(1, 2, 0), new Vector3(0, 1, 0));
+  const projection = Matrix4.perspective(Math.PI / 4, 960 / 640, 0.1, 100);
+  const screen = camera.world_to_screen(new Vector3(1, 2, 0), view, projection, 960, 640);
+  expect(screen.x).toBeCloseTo(480);
+  expect(screen.y).toBeCloseTo(320);
+});
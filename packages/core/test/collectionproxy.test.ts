@@ -0,0 +1,21 @@
+import { fake } from '../src/testing';
+import * as collectionproxy from '../src/collectionproxy';
+
+beforeEach(() => fake.reset());
+
+test('the proxy is controlled through messages', () => {
+  collectionproxy.load('#proxy');
+  collectionproxy.init('#proxy');
+  collectionproxy.enable('#proxy');
+  expect(fake.calls_to('msg.post').map((call) => call.args[1])).toEqual(['load', 'init', 'enable']);
+});
+
+test('set_time_step posts the factor and mode', () => {
+  collectionproxy.set_time_step('#proxy', 0.5, 1);
+  expect(fake.last_call('msg.post').args).toEqual(['#proxy', 'set_time_step', { factor: 0.5, mode: 1 }]);
+});
+
+test('missing_resources converts the returned table to an array', () => {
+  fake.returns('collectionproxy.missing_resources', { 1: 'a1', 2: 'b2' });
+  expect(collectionproxy.missing_resources('#proxy')).toEqual(['a1', 'b2']);
+});
@@ -0,0 +1,29 @@
+import { fake, userdata } from '../src/testing';
+import { hash, hash_to_hex } from '../src/builtins';
+import * as collectionfactory from '../src/collectionfactory';
+import * as factory from '../src/factory';
+import { Vector3 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('factory.create converts the arguments', () => {
+  const position = new Vector3(1, 2, 3);
+  fake.returns('factory.create', 'id');
+  expect(factory.create('#factory', position, undefined, { speed: 2, target: position })).toBe('id');
+  expect(fake.last_call('factory.create').args).toEqual(['#factory', position.data, undefined, { speed: 2, target: position.data }, undefined]);
+});
+
+test('factory.load passes the callback', () => {
+  const loaded = jest.fn();
+  factory.load('#factory', loaded);
+  expect(fake.last_call('factory.load').args).toEqual(['#factory', loaded]);
+});
+
+test('collectionfactory.create returns the spawned ids keyed by the hex of the collection-local ids', () => {
+  const spawned = new Map([[userdata('hash', { value: '/ship' }), 'ship-id'], [userdata('hash', { value: '/gun' }), 'gun-id']]);
+  fake.returns('collectionfactory.create', spawned);
+  const ids = collectionfactory.create('#collectionfactory', undefined, undefined, { '/ship': { speed: 2 } });
+  expect(ids.get(hash_to_hex(hash('/ship')))).toBe('ship-id');
+  expect(ids.get(hash_to_hex(hash('/gun')))).toBe('gun-id');
+  expect(fake.last_call('collectionfactory.create').args[3]).toEqual({ '/ship': { speed: 2 } });
+});
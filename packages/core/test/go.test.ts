@@ -0,0 +1,118 @@
+import { fake, userdata } from '../src/testing';
+import { flush } from '../src/async';
+import * as go from '../src/go';
+import { script } from '../src/support';
+import { Quaternion, Vector3, vector } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('enums read the engine constants', () => {
+  expect(go.EASING.EASING_LINEAR).toBe('go.EASING_LINEAR');
+  expect(go.PLAYBACK.PLAYBACK_ONCE_FORWARD).toBe('go.PLAYBACK_ONCE_FORWARD');
+});
+
+test('get_position wraps the returned vector', () => {
+  fake.returns('go.get_position', userdata('vector3', { x: 1, y: 2, z: 3 }));
+  const position = go.get_position('/ship');
+  expect(position).toBeInstanceOf(Vector3);
+  expect([position.x, position.y, position.z]).toEqual([1, 2, 3]);
+  expect(fake.last_call('go.get_position')).toEqual({ path: 'go.get_position', nret: 1, args: ['/ship'] });
+});
+
+test('set_position and set_rotation pass the wrapped values', () => {
+  const position = new Vector3(1, 2, 3);
+  const rotation = new Quaternion();
+  go.set_position(position, '/ship');
+  go.set_rotation(rotation);
+  expect(fake.last_call('go.set_position')).toEqual({ path: 'go.set_position', nret: 0, args: [position.data, '/ship'] });
+  expect(fake.last_call('go.set_rotation').args[0]).toEqual(rotation.data);
+});
+
+test('set_scale accepts a number or a vector', () => {
+  const scale = new Vector3(2);
+  go.set_scale(2);
+  go.set_scale(scale);
+  expect(fake.calls_to('go.set_scale').map((call) => call.args[0])).toEqual([2, scale.data]);
+});
+
+test('delete_ converts an array of ids to a table', () => {
+  go.delete_(['/a', '/b'], true);
+  expect(fake.last_call('go.delete').args).toEqual([{ 1: '/a', 2: '/b' }, true]);
+});
+
+test('get converts vector properties', () => {
+  fake.returns('go.get', userdata('vector4', { x: 1, y: 0, z: 0, w: 1 }));
+  expect(go.get('#sprite', 'tint').x).toBe(1);
+});
+
+test('animate unwraps the target and samples easing functions', () => {
+  const to = new Vector3(10, 0, 0);
+  go.animate('.', 'position', go.PLAYBACK.PLAYBACK_ONCE_FORWARD, to, (t) => t, 1);
+  const [url, property, playback, target] = fake.last_call('go.animate').args;
+  expect([url, property, playback, target]).toEqual(['.', 'position', 'go.PLAYBACK_ONCE_FORWARD', to.data]);
+  const curve = fake.last_call('vmath.vector').args[0];
+  expect(curve[1]).toBe(0);
+  expect(curve[64]).toBe(1);
+});
+
+test('animate only passes a complete function when given one', () => {
+  const complete = jest.fn();
+  go.animate('.', 'position.x', go.PLAYBACK.PLAYBACK_ONCE_FORWARD, 1, go.EASING.EASING_LINEAR, 1);
+  expect(fake.last_call('go.animate').args[7]).toBeUndefined();
+  go.animate('.', 'position.x', go.PLAYBACK.PLAYBACK_ONCE_FORWARD, 1, go.EASING.EASING_LINEAR, 1, 0, complete);
+  fake.last_call('go.animate').args[7]({}, '.', 'position.x');
+  expect(complete).toHaveBeenCalledWith({}, '.', 'position.x');
+});
+
+test('animate_async resolves once the animation has completed', () => {
+  const resolved = jest.fn();
+  go.animate_async('.', 'position.x', go.PLAYBACK.PLAYBACK_ONCE_FORWARD, 1, go.EASING.EASING_LINEAR, 1).then(resolved);
+  expect(resolved).not.toHaveBeenCalled();
+  fake.last_call('go.animate').args[7]({}, '.', 'position.x');
+  expect(resolved).toHaveBeenCalled();
+});
+
+test('animate_async rejects looping playbacks', () => {
+  const rejected = jest.fn();
+  go.animate_async('.', 'position.x', go.PLAYBACK.PLAYBACK_LOOP_PINGPONG, 1, go.EASING.EASING_LINEAR, 1).then(undefined, rejected);
+  flush();
+  expect(rejected.mock.calls[0][0]).toBeInstanceOf(RangeError);
+  expect(fake.calls_to('go.animate')).toEqual([]);
+});
+
+test('set passes Lua values as they are', () => {
+  const position = userdata('vector3', { x: 1, y: 2, z: 3 });
+  go.set('.', 'position', position);
+  expect(fake.last_call('go.set').args[2]).toBe(position);
+});
+
+test('property unwraps vectors', () => {
+  const value = new Vector3(1, 2, 3);
+  go.property('speed', 3);
+  go.property('target', value);
+  expect(fake.calls_to('go.property').map((call) => call.args)).toEqual([['speed', 3], ['target', value.data]]);
+});
+
+test('properties gives scripts a typed self', () => {
+  const ships: Ship[] = [];
+  class Ship extends go.properties({ speed: 200, target: new Vector3() }) {
+    init() {
+      ships.push(this);
+    }
+  }
+  expect(fake.calls_to('go.property').map((call) => call.args[0])).toEqual(['speed', 'target']);
+  const lifecycle = script(Ship);
+  // the glue passes the raw self table, which the script sees through the typed view
+  const self = { speed: 100, target: userdata('vector3', { x: 1, y: 2, z: 3 }) };
+  lifecycle.init(self as unknown as Ship['self']);
+  expect(ships[0].self.speed).toBe(100);
+  expect(ships[0].self.target).toBeInstanceOf(Vector3);
+  expect(ships[0].self.target.y).toBe(2);
+  ships[0].self.target = new Vector3(4, 5, 6);
+  expect(self.target).toEqual({ x: 4, y: 5, z: 6 });
+});
+
+test('animate accepts a vector as easing curve', () => {
+  go.animate('.', 'position.x', go.PLAYBACK.PLAYBACK_ONCE_FORWARD, 10, vector([0, 0.5, 1]), 1);
+  expect(fake.last_call('vmath.vector').args).toEqual([{ 1: 0, 2: 0.5, 3: 1 }]);
+});
@@ -0,0 +1,40 @@
+import { fake, userdata } from '../src/testing';
+import { hash, hash_to_hex } from '../src/builtins';
+import { EASING } from '../src/go';
+import * as gui from '../src/gui';
+import { Vector3 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('nodes are wrapped and unwrapped', () => {
+  fake.returns('gui.get_node', { node: 'box' });
+  const node = gui.get_node('box');
+  expect(node).toBeInstanceOf(gui.Node);
+  node.delete();
+  expect(fake.last_call('gui.delete_node').args).toEqual([{ node: 'box' }]);
+});
+
+test('node properties go through the gui functions', () => {
+  const node = new gui.Node({ node: 'box' });
+  const position = new Vector3(1, 2, 0);
+  node.position = position;
+  expect(fake.last_call('gui.set_position').args).toEqual([node.data, position.data]);
+});
+
+test('animate wraps the node given to the complete function', () => {
+  const node = new gui.Node({ node: 'box' });
+  const complete = jest.fn();
+  gui.animate(node, 'position.x', 100, EASING.EASING_LINEAR, 1, 0, complete);
+  const call = fake.last_call('gui.animate');
+  expect(call.args.slice(0, 4)).toEqual([node.data, 'position.x', 100, 'go.EASING_LINEAR']);
+  call.args[6]({}, node.data);
+  expect(complete.mock.calls[0][1]).toBeInstanceOf(gui.Node);
+});
+
+test('clone_tree wraps every cloned node, keyed by the hex of the node id', () => {
+  fake.returns('gui.clone_tree', new Map([[userdata('hash', { value: 'box' }), { node: 'box copy' }]]));
+  const nodes = gui.clone_tree(new gui.Node({ node: 'box' }));
+  const box = nodes.get(hash_to_hex(hash('box')));
+  expect(box).toBeInstanceOf(gui.Node);
+  expect(box.data).toEqual({ node: 'box copy' });
+});
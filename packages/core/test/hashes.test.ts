@@ -0,0 +1,44 @@
+import { fake } from '../src/testing';
+import * as hashes from '../src/hashes';
+
+beforeEach(() => fake.reset());
+
+test('strings are hashed once', () => {
+  const h = hashes.get('cached');
+  expect(hashes.get('cached')).toBe(h);
+  expect(fake.calls_to('hash')).toHaveLength(1);
+});
+
+test('equals compares hashes and strings', () => {
+  const h = hashes.get('left');
+  const same = fake.global.hash(1, 'left');
+  expect(hashes.equals(h, same)).toBe(true);
+  expect(hashes.equals(same, 'left')).toBe(true);
+  expect(hashes.equals('left', 'right')).toBe(false);
+  expect(hashes.equals(h, 'right')).toBe(false);
+});
+
+test('reverse returns the hashed string', () => {
+  hashes.get('known');
+  expect(hashes.reverse(fake.global.hash(1, 'known'))).toBe('known');
+  expect(hashes.reverse(fake.global.hash(1, 'unknown'))).toBeUndefined();
+});
+
+test('switchHash calls the matching case', () => {
+  const cases = { up: jest.fn(() => 1), down: jest.fn(() => -1) };
+  expect(hashes.switchHash(fake.global.hash(1, 'down'), cases)).toBe(-1);
+  expect(cases.up).not.toHaveBeenCalled();
+  expect(hashes.switchHash(fake.global.hash(1, 'left'), cases, () => 0)).toBe(0);
+  expect(hashes.switchHash(fake.global.hash(1, 'left'), cases)).toBeUndefined();
+});
+
+test('names of built-in object properties are hashed like any other string', () => {
+  const h = hashes.get('constructor');
+  expect(h).toEqual(fake.global.hash(1, 'constructor'));
+  expect(fake.last_call('hash_to_hex').args).toEqual([h]);
+  expect(hashes.get('toString')).toEqual(fake.global.hash(1, 'toString'));
+  expect(hashes.reverse(fake.global.hash(1, 'hasOwnProperty'))).toBeUndefined();
+  const cases = { constructor: jest.fn(() => 1), hasOwnProperty: jest.fn(() => 2) };
+  expect(hashes.switchHash(fake.global.hash(1, 'constructor'), cases)).toBe(1);
+  expect(hashes.switchHash(fake.global.hash(1, 'hasOwnProperty'), cases)).toBe(2);
+});
@@ -0,0 +1,10 @@
+import { fake } from '../src/testing';
+import * as html5 from '../src/html5';
+
+beforeEach(() => fake.reset());
+
+test('run returns the result', () => {
+  fake.returns('html5.run', '4');
+  expect(html5.run('2 + 2')).toBe('4');
+  expect(fake.last_call('html5.run').args).toEqual(['2 + 2']);
+});
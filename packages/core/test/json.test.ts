@@ -0,0 +1,9 @@
+import { fake } from '../src/testing';
+import * as json from '../src/json';
+
+beforeEach(() => fake.reset());
+
+test('json.decode converts the decoded table', () => {
+  fake.returns('json.decode', { items: { 1: 'a', 2: 'b' }, count: 2 });
+  expect(json.decode('{"items":["a","b"],"count":2}')).toEqual({ items: ['a', 'b'], count: 2 });
+});
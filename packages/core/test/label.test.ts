@@ -0,0 +1,14 @@
+import { fake } from '../src/testing';
+import * as label from '../src/label';
+
+beforeEach(() => fake.reset());
+
+test('get_text_metrics returns the metrics table', () => {
+  fake.returns('label.get_text_metrics', { width: 10, height: 4, max_ascent: 3, max_descent: 1 });
+  expect(label.get_text_metrics('#label')).toEqual({ width: 10, height: 4, max_ascent: 3, max_descent: 1 });
+});
+
+test('set_text passes the text', () => {
+  label.set_text('#label', 'hello');
+  expect(fake.last_call('label.set_text')).toEqual({ path: 'label.set_text', nret: 0, args: ['#label', 'hello'] });
+});
@@ -0,0 +1,27 @@
+import { fake } from '../../src/testing';
+import { assert, collectgarbage, dofile, error, print } from '../../src/lua';
+
+beforeEach(() => fake.reset());
+
+test('functions are called with their return counts', () => {
+  assert(true, 'message');
+  collectgarbage('step', 0);
+  print('a', 1);
+  expect(fake.calls.map(({ path, nret, args }) => [path, nret, args])).toEqual([
+    ['assert', 1, [true, 'message']],
+    ['collectgarbage', 1, ['step', 0]],
+    ['print', 0, ['a', 1]],
+  ]);
+});
+
+test('dofile converts the returned value', () => {
+  fake.returns('dofile', { 1: 'a', 2: 'b' });
+  expect(dofile('/main/list.lua')).toEqual(['a', 'b']);
+});
+
+test('error throws what the lua error returns', () => {
+  const failure = new Error('failed');
+  fake.returns('error', failure);
+  expect(() => error('failed', 2)).toThrow(failure);
+  expect(fake.last_call('error').args).toEqual(['failed', 2]);
+});
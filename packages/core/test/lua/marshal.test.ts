@@ -0,0 +1,54 @@
+import { fake, userdata } from '../../src/testing';
+import { hash, hash_to_hex } from '../../src/builtins';
+import { array_from_lua, from_lua, hash_map_from_lua, map_from_lua, object_from_lua, to_lua } from '../../src/lua';
+import { Quaternion, Vector3 } from '../../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('to_lua unwraps wrappers and builds tables recursively', () => {
+  const position = new Vector3(1, 2, 3);
+  expect(to_lua(undefined)).toBeUndefined();
+  expect(to_lua(null)).toBeUndefined();
+  expect(to_lua(5)).toBe(5);
+  expect(to_lua(position)).toEqual(position.data);
+  expect(to_lua(['a', [position]])).toEqual({ 1: 'a', 2: { 1: position.data } });
+  expect(to_lua({ at: position, tags: new Map([['n', 1]]) })).toEqual({ at: position.data, tags: { n: 1 } });
+});
+
+test('to_lua passes userdata as it is', () => {
+  const position = userdata('vector3', { x: 1, y: 2, z: 3 });
+  const id = userdata('hash', { value: 'id' });
+  expect(to_lua(position)).toBe(position);
+  expect(to_lua({ id }).id).toBe(id);
+  expect(to_lua([position])[1]).toBe(position);
+});
+
+test('from_lua converts tables and userdata', () => {
+  const rotation = userdata('quat', { x: 0, y: 0, z: 0, w: 1 });
+  expect(from_lua({ 1: 'a', 2: 'b' })).toEqual(['a', 'b']);
+  expect(from_lua({ name: 'ship', speed: 2 })).toEqual({ name: 'ship', speed: 2 });
+  expect(from_lua({ rotation }).rotation).toBeInstanceOf(Quaternion);
+  expect(from_lua(userdata('vector3', { x: 1, y: 2, z: 3 }))).toBeInstanceOf(Vector3);
+  const h = userdata('hash', { value: 'id' });
+  expect(from_lua(h)).toBe(h);
+});
+
+test('table conversions accept nil', () => {
+  expect(array_from_lua(undefined)).toEqual([]);
+  expect(object_from_lua(undefined)).toEqual({});
+  expect(map_from_lua(undefined).size).toBe(0);
+  expect(hash_map_from_lua(undefined).size).toBe(0);
+});
+
+test('table conversions apply the element conversion', () => {
+  expect(array_from_lua({ 1: 1, 2: 2 }, (n) => n * 2)).toEqual([2, 4]);
+  expect(map_from_lua({ a: 1 }, (n) => n + 1).get('a')).toBe(2);
+});
+
+test('hash_map_from_lua keys the table by the hex of its hash keys', () => {
+  const table = new Map([[userdata('hash', { value: '/ship' }), 1], [userdata('hash', { value: '/gun' }), 2]]);
+  const map = hash_map_from_lua(table, (n) => n * 10);
+  expect(map.size).toBe(2);
+  expect(map.get(hash_to_hex(hash('/ship')))).toBe(10);
+  expect(map.get(hash_to_hex(hash('/gun')))).toBe(20);
+});
@@ -0,0 +1,35 @@
+import { fake, userdata } from '../src/testing';
+import { hash } from '../src/builtins';
+import * as msg from '../src/msg';
+import { Vector3 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('post converts the message', () => {
+  const position = new Vector3(1, 2, 3);
+  msg.post('#', 'custom', { position });
+  expect(fake.last_call('msg.post')).toEqual({ path: 'msg.post', nret: 0, args: ['#', 'custom', { position: position.data }] });
+});
+
+test('post passes nested hashes and URLs as they are', () => {
+  const id = hash('run');
+  const target = userdata('url', { socket: 'main', path: '/ship', fragment: 'sprite' });
+  msg.post('#sprite', 'play_animation', { id });
+  expect(fake.last_call('msg.post').args[2].id).toBe(id);
+  msg.post('#', 'custom', { nested: { target } });
+  expect(fake.last_call('msg.post').args[2].nested.target).toBe(target);
+});
+
+test('post without a message passes no message', () => {
+  msg.post('#', 'enable');
+  expect(fake.last_call('msg.post').args).toEqual(['#', 'enable']);
+});
+
+test('dispatcher routes messages to their handler', () => {
+  const self = {};
+  const enable = jest.fn();
+  const on_message = msg.dispatcher({ enable });
+  expect(on_message(self, hash('enable'), {}, undefined)).toBe(true);
+  expect(enable).toHaveBeenCalledWith(self, {}, undefined);
+  expect(on_message(self, hash('disable'), {}, undefined)).toBe(false);
+});
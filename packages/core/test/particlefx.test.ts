@@ -0,0 +1,22 @@
+import { fake } from '../src/testing';
+import * as particlefx from '../src/particlefx';
+import { Vector4 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('play passes the emitter state callback', () => {
+  const callback = jest.fn();
+  particlefx.play('#fx', callback);
+  expect(fake.last_call('particlefx.play').args).toEqual(['#fx', callback]);
+});
+
+test('stop passes the options', () => {
+  particlefx.stop('#fx', { clear: true });
+  expect(fake.last_call('particlefx.stop').args).toEqual(['#fx', { clear: true }]);
+});
+
+test('set_constant unwraps the value', () => {
+  const value = new Vector4(1, 0, 0, 1);
+  particlefx.set_constant('#fx', 'emitter', 'tint', value);
+  expect(fake.last_call('particlefx.set_constant').args).toEqual(['#fx', 'emitter', 'tint', value.data]);
+});
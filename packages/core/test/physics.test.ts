@@ -0,0 +1,33 @@
+import { fake, userdata } from '../src/testing';
+import * as physics from '../src/physics';
+import { Vector3 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('raycast converts the arguments and the result', () => {
+  const from = new Vector3(0, 0, 0);
+  const to = new Vector3(10, 0, 0);
+  fake.returns('physics.raycast', { fraction: 0.5, position: userdata('vector3', { x: 5, y: 0, z: 0 }) });
+  const result = physics.raycast(from, to, ['wall']);
+  expect(fake.last_call('physics.raycast').args).toEqual([from.data, to.data, { 1: 'wall' }, undefined]);
+  expect(result.fraction).toBe(0.5);
+  expect(result.position).toBeInstanceOf(Vector3);
+});
+
+test('raycast returns every hit when asked to', () => {
+  fake.returns('physics.raycast', { 1: { fraction: 0.2 }, 2: { fraction: 0.8 } });
+  const results = physics.raycast(new Vector3(), new Vector3(1, 0, 0), ['wall'], { all: true });
+  expect(results.map((result) => result.fraction)).toEqual([0.2, 0.8]);
+});
+
+test('raycast returns undefined when nothing is hit', () => {
+  expect(physics.raycast(new Vector3(), new Vector3(1, 0, 0), ['wall'])).toBeUndefined();
+});
+
+test('gravity is wrapped and unwrapped', () => {
+  fake.returns('physics.get_gravity', userdata('vector3', { x: 0, y: -10, z: 0 }));
+  const gravity = physics.get_gravity();
+  expect(gravity.y).toBe(-10);
+  physics.set_gravity(gravity);
+  expect(fake.last_call('physics.set_gravity').args).toEqual([gravity.data]);
+});
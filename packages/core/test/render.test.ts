@@ -0,0 +1,25 @@
+import { fake } from '../src/testing';
+import * as render from '../src/render';
+import { Vector4 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('clear keys the values by buffer type', () => {
+  const color = new Vector4(0, 0, 0, 1);
+  render.clear({ color, depth: 1 });
+  expect(fake.last_call('render.clear').args).toEqual([{
+    'render.BUFFER_COLOR_BIT': color.data,
+    'render.BUFFER_DEPTH_BIT': 1,
+  }]);
+});
+
+test('predicate converts the tags', () => {
+  fake.returns('render.predicate', 'predicate');
+  expect(render.predicate(['tile', 'gui'])).toBe('predicate');
+  expect(fake.last_call('render.predicate').args).toEqual([{ 1: 'tile', 2: 'gui' }]);
+});
+
+test('draw passes the options', () => {
+  render.draw('predicate');
+  expect(fake.last_call('render.draw').args).toEqual(['predicate', undefined]);
+});
@@ -0,0 +1,39 @@
+import { fake } from '../src/testing';
+import * as buffer from '../src/buffer';
+import * as resource from '../src/resource';
+
+beforeEach(() => fake.reset());
+
+test('resources are set from buffers', () => {
+  const b = new buffer.Buffer({ handle: 1 });
+  resource.set('/main/data.bin', b);
+  expect(fake.last_call('resource.set').args).toEqual(['/main/data.bin', b.data]);
+});
+
+test('loaded resources are wrapped in buffers', () => {
+  fake.returns('resource.load', { handle: 2 });
+  const b = resource.load('/main/data.bin');
+  expect(b).toBeInstanceOf(buffer.Buffer);
+  expect(b.data).toEqual({ handle: 2 });
+});
+
+test('set_texture converts the texture info', () => {
+  const b = new buffer.Buffer({ handle: 1 });
+  const info = { type: resource.TEXTURE_TYPE.TEXTURE_TYPE_2D, width: 2, height: 2, format: resource.TEXTURE_FORMAT.TEXTURE_FORMAT_RGB };
+  resource.set_texture('/main/logo.texturec', info, b);
+  expect(fake.last_call('resource.set_texture').args).toEqual(['/main/logo.texturec', info, b.data]);
+});
+
+test('resource properties hold the value of the resource constructor', () => {
+  fake.returns('resource.atlas', { atlas: true });
+  expect(new resource.AtlasResource().data).toEqual({ atlas: true });
+});
+
+test('store_manifest calls back and resolves with the status', () => {
+  const stored = jest.fn();
+  const resolved = jest.fn();
+  resource.store_manifest('manifest', stored).then(resolved);
+  fake.last_call('resource.store_manifest').args[1]({}, resource.LIVEUPDATE_STATUS.LIVEUPDATE_OK);
+  expect(stored).toHaveBeenCalledWith({}, 'resource.LIVEUPDATE_OK');
+  expect(resolved).toHaveBeenCalledWith('resource.LIVEUPDATE_OK');
+});
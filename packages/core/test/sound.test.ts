@@ -0,0 +1,21 @@
+import { fake } from '../src/testing';
+import * as sound from '../src/sound';
+
+beforeEach(() => fake.reset());
+
+test('play returns the play id', () => {
+  fake.returns('sound.play', 3);
+  expect(sound.play('#sound', { gain: 0.5 })).toBe(3);
+  expect(fake.last_call('sound.play').args).toEqual(['#sound', { gain: 0.5 }, undefined]);
+});
+
+test('get_groups converts the returned table to an array', () => {
+  fake.returns('sound.get_groups', { 1: 'master', 2: 'music' });
+  expect(sound.get_groups()).toEqual(['master', 'music']);
+});
+
+test('get_rms returns both channels', () => {
+  fake.returns('sound.get_rms', [0.1, 0.2]);
+  expect(sound.get_rms('master', 0.1)).toEqual([0.1, 0.2]);
+  expect(fake.last_call('sound.get_rms').nret).toBe(2);
+});
@@ -0,0 +1,24 @@
+import { fake } from '../src/testing';
+import * as sprite from '../src/sprite';
+import { Vector4 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('play_flipbook passes the callback and properties', () => {
+  const callback = jest.fn();
+  sprite.play_flipbook('#sprite', 'run', callback, { offset: 0.5, playback_rate: 2 });
+  expect(fake.last_call('sprite.play_flipbook').args).toEqual(['#sprite', 'run', callback, { offset: 0.5, playback_rate: 2 }]);
+});
+
+test('set_constant unwraps the value', () => {
+  const value = new Vector4(1, 1, 1, 0.5);
+  sprite.set_constant('#sprite', 'tint', value);
+  expect(fake.last_call('sprite.set_constant').args).toEqual(['#sprite', 'tint', value.data]);
+});
+
+test('flipping passes the flag', () => {
+  sprite.set_hflip('#sprite', true);
+  sprite.set_vflip('#sprite', false);
+  expect(fake.last_call('sprite.set_hflip').args).toEqual(['#sprite', true]);
+  expect(fake.last_call('sprite.set_vflip').args).toEqual(['#sprite', false]);
+});
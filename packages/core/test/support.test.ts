@@ -0,0 +1,146 @@
+import { fake } from '../src/testing';
+import * as async from '../src/async';
+import { hash, Hash } from '../src/builtins';
+import { Script, script, hasheq } from '../src/support';
+import { temp, Vector3 } from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+class Counter extends Script<{ count?: number }> {
+  messages: Hash[] = [];
+
+  init() {
+    this.self.count = 0;
+  }
+
+  update() {
+    this.self.count++;
+  }
+
+  on_message(message_id: Hash) {
+    this.messages.push(message_id);
+  }
+}
+
+test('script forwards the lifecycle to an instance per game object', () => {
+  const lifecycle = script(Counter);
+  const first: { count?: number } = {};
+  const second: { count?: number } = {};
+  lifecycle.init(first);
+  lifecycle.init(second);
+  lifecycle.update(first, 0.016);
+  lifecycle.update(first, 0.016);
+  lifecycle.update(second, 0.016);
+  expect(first.count).toBe(2);
+  expect(second.count).toBe(1);
+  lifecycle.final(first);
+  lifecycle.final(second);
+});
+
+test('script resolves awaited messages before the handler runs', () => {
+  const lifecycle = script(Counter);
+  const self = {};
+  const resolved = jest.fn();
+  lifecycle.init(self);
+  async.awaitMessage(self, 'ping').then(resolved);
+  lifecycle.on_message(self, hash('ping'), {}, undefined);
+  expect(resolved).toHaveBeenCalled();
+  lifecycle.final(self);
+});
+
+test('script resumes an awaited message in the instance which received it', () => {
+  const lifecycle = script(Counter);
+  const first = {};
+  const second = {};
+  const resolved = jest.fn();
+  lifecycle.init(first);
+  lifecycle.init(second);
+  async.awaitMessage(first, 'ping').then(resolved);
+  lifecycle.on_message(second, hash('ping'), {}, undefined);
+  expect(resolved).not.toHaveBeenCalled();
+  lifecycle.on_message(first, hash('ping'), {}, undefined);
+  expect(resolved).toHaveBeenCalled();
+  lifecycle.final(first);
+  lifecycle.final(second);
+});
+
+const movers: Mover[] = [];
+
+class Mover extends Script<{}> {
+  velocity: Vector3;
+
+  init() {
+    movers.push(this);
+  }
+
+  update() {
+    this.velocity = temp.vector3(movers.indexOf(this), 0, 0);
+  }
+}
+
+test('script resets the temporary values once per frame, not per instance', () => {
+  const lifecycle = script(Mover);
+  const first = {};
+  const second = {};
+  lifecycle.init(first);
+  lifecycle.init(second);
+  lifecycle.update(first, 0.016);
+  lifecycle.update(second, 0.016);
+  expect(movers[0].velocity).not.toBe(movers[1].velocity);
+  expect(movers[0].velocity.x).toBe(0);
+  expect(movers[1].velocity.x).toBe(1);
+  lifecycle.update(first, 0.016);
+  expect(temp.vector3()).toBe(movers[1].velocity);
+  lifecycle.final(first);
+  lifecycle.final(second);
+});
+
+test('script runs the promise reactions once per frame, before the first update', () => {
+  const lifecycle = script(Counter);
+  const first = {};
+  const second = {};
+  const resolved = jest.fn();
+  lifecycle.init(first);
+  lifecycle.init(second);
+  lifecycle.update(first, 0.016);
+  async.ScriptPromise.resolve().then(resolved);
+  lifecycle.update(second, 0.016);
+  expect(resolved).not.toHaveBeenCalled();
+  lifecycle.update(first, 0.016);
+  expect(resolved).toHaveBeenCalled();
+  lifecycle.final(first);
+  lifecycle.final(second);
+});
+
+test('script ignores the callbacks of a self table without an instance', () => {
+  class Broken extends Script<{}> {
+    constructor() {
+      super();
+      throw new Error('failed');
+    }
+  }
+  const lifecycle = script(Broken);
+  const self = {};
+  expect(() => lifecycle.init(self)).toThrow('failed');
+  expect(() => {
+    lifecycle.update(self, 0.016);
+    lifecycle.fixed_update(self, 0.016);
+    lifecycle.on_message(self, hash('ping'), {}, undefined);
+    lifecycle.on_input(self, hash('touch'), {});
+    lifecycle.on_reload(self);
+    lifecycle.final(self);
+  }).not.toThrow();
+});
+
+test('script releases the awaited messages on final without an instance', () => {
+  const lifecycle = script(Counter);
+  const self = {};
+  async.awaitMessage(self, 'ping');
+  lifecycle.final(self);
+  expect(async.on_message(self, hash('ping'), {}, undefined)).toBe(false);
+});
+
+test('hasheq compares hashes and strings', () => {
+  expect(hasheq(hash('a'), 'a')).toBe(true);
+  expect(hasheq('a', 'b')).toBe(false);
+});
@@ -0,0 +1,22 @@
+import { fake } from '../src/testing';
+import * as sys from '../src/sys';
+
+beforeEach(() => fake.reset());
+
+test('get_config passes the default value', () => {
+  fake.returns('sys.get_config', '960');
+  expect(sys.get_config('display.width', '640')).toBe('960');
+  expect(fake.last_call('sys.get_config').args).toEqual(['display.width', '640']);
+});
+
+test('get_sys_info converts the options and the result', () => {
+  fake.returns('sys.get_sys_info', { system_name: 'Linux' });
+  expect(sys.get_sys_info({ ignore_secure: true })).toEqual({ system_name: 'Linux' });
+  expect(fake.last_call('sys.get_sys_info').args).toEqual([{ ignore_secure: true }]);
+});
+
+test('open_url passes the attributes', () => {
+  fake.returns('sys.open_url', true);
+  expect(sys.open_url('https://defold.com', { target: '_blank' })).toBe(true);
+  expect(fake.last_call('sys.open_url').args).toEqual(['https://defold.com', { target: '_blank' }]);
+});
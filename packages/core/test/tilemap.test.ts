@@ -0,0 +1,22 @@
+import { fake } from '../src/testing';
+import * as tilemap from '../src/tilemap';
+
+beforeEach(() => fake.reset());
+
+test('get_bounds names the returned values', () => {
+  fake.returns('tilemap.get_bounds', [1, 2, 30, 20]);
+  expect(tilemap.get_bounds('#map')).toEqual({ x: 1, y: 2, w: 30, h: 20 });
+  expect(fake.last_call('tilemap.get_bounds').nret).toBe(4);
+});
+
+test('get_tile and set_tile pass the coordinates', () => {
+  fake.returns('tilemap.get_tile', 7);
+  expect(tilemap.get_tile('#map', 'ground', 3, 4)).toBe(7);
+  tilemap.set_tile('#map', 'ground', 3, 4, 8, tilemap.TRANSFORM.H_FLIP);
+  expect(fake.last_call('tilemap.set_tile').args).toEqual(['#map', 'ground', 3, 4, 8, 'tilemap.H_FLIP']);
+});
+
+test('set_visible toggles a layer', () => {
+  tilemap.set_visible('#map', 'ground', false);
+  expect(fake.last_call('tilemap.set_visible').args).toEqual(['#map', 'ground', false]);
+});
@@ -0,0 +1,20 @@
+import { fake } from '../src/testing';
+import * as timer from '../src/timer';
+
+beforeEach(() => fake.reset());
+
+test('delay returns the handle', () => {
+  const callback = jest.fn();
+  fake.returns('timer.delay', 1);
+  expect(timer.delay(0.5, true, callback)).toBe(1);
+  expect(fake.last_call('timer.delay').args).toEqual([0.5, true, callback]);
+});
+
+test('get_info returns the timer information', () => {
+  fake.returns('timer.get_info', { time_remaining: 0.2, delay: 0.5, repeating: true });
+  expect(timer.get_info(1)).toEqual({ time_remaining: 0.2, delay: 0.5, repeating: true });
+});
+
+test('get_info returns undefined for unknown timers', () => {
+  expect(timer.get_info(2)).toBeUndefined();
+});
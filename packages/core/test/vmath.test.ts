@@ -0,0 +1,256 @@
+import { fake, userdata } from '../src/testing';
+import { from_lua } from '../src/lua';
+import * as vmath from '../src/vmath';
+
+beforeEach(() => fake.reset());
+
+test('components are read from and written to the wrapped value', () => {
+  const v = new vmath.Vector3(1, 2, 3);
+  v.x = 4;
+  expect(v.data).toEqual({ x: 4, y: 2, z: 3 });
+  expect(new vmath.Vector3(userdata('vector3', { x: 5, y: 6, z: 7 })).z).toBe(7);
+});
+
+test('operators compute new vectors', () => {
+  const sum = vmath.add(new vmath.Vector3(1, 2, 3), new vmath.Vector3(1, 1, 1));
+  expect([sum.x, sum.y, sum.z]).toEqual([2, 3, 4]);
+  const scaled = vmath.Vector4.mul(new vmath.Vector4(1, 2, 3, 4), 2);
+  expect([scaled.x, scaled.y, scaled.z, scaled.w]).toEqual([2, 4, 6, 8]);
+});
+
+test('operators reject mismatched operands', () => {
+  expect(() => vmath.add(new vmath.Vector3(), new vmath.Vector4() as any)).toThrow(TypeError);
+});
+
+test('math runs without crossing the bridge', () => {
+  const v = new vmath.Vector3(3, 4, 0);
+  expect(v.length()).toBe(5);
+  expect(v.normalize().x).toBeCloseTo(0.6);
+  expect(vmath.Vector3.dot(v, new vmath.Vector3(1, 1, 1))).toBe(7);
+  const cross = vmath.Vector3.cross(new vmath.Vector3(1, 0, 0), new vmath.Vector3(0, 1, 0));
+  expect([cross.x, cross.y, cross.z]).toEqual([0, 0, 1]);
+  expect(fake.calls).toHaveLength(0);
+});
+
+test('data creates a Lua value, and wrapping one copies its components', () => {
+  const v = new vmath.Vector4(1, 2, 3, 4);
+  expect(v.data).toEqual({ x: 1, y: 2, z: 3, w: 4 });
+  expect(fake.last_call('vmath.vector4').args).toEqual([1, 2, 3, 4]);
+  const data = userdata('vector4', { x: 5, y: 6, z: 7, w: 8 });
+  const copy = new vmath.Vector4(data);
+  data.x = 0;
+  expect(copy.x).toBe(5);
+});
+
+test('quaternions rotate vectors', () => {
+  const q = vmath.Quaternion.rotation_z(Math.PI / 2);
+  const v = q.rotate(new vmath.Vector3(1, 0, 0));
+  expect(v.x).toBeCloseTo(0);
+  expect(v.y).toBeCloseTo(1);
+  const back = vmath.mul(q, q.conj());
+  expect(back.w).toBeCloseTo(1);
+  const from_to = vmath.Quaternion.from_to(new vmath.Vector3(1, 0, 0), new vmath.Vector3(0, 1, 0));
+  expect(vmath.Quaternion.slerp(1, new vmath.Quaternion(), from_to).z).toBeCloseTo(q.z);
+});
+
+test('matrix elements are named by row and column', () => {
+  const m = vmath.Matrix4.translation(new vmath.Vector3(1, 2, 3));
+  expect([m.m03, m.m13, m.m23]).toEqual([1, 2, 3]);
+  const p = vmath.Matrix4.mul(m, new vmath.Vector4(1, 1, 1, 1));
+  expect([p.x, p.y, p.z, p.w]).toEqual([2, 3, 4, 1]);
+});
+
+test('matrices multiply column vectors on the right and row vectors on the left', () => {
+  const m = vmath.Matrix4.translation(new vmath.Vector3(1, 2, 3));
+  const column = vmath.mul(m, new vmath.Vector4(1, 1, 1, 1));
+  expect([column.x, column.y, column.z, column.w]).toEqual([2, 3, 4, 1]);
+  const row = vmath.mul(new vmath.Vector4(1, 1, 1, 1), m);
+  expect([row.x, row.y, row.z, row.w]).toEqual([1, 1, 1, 7]);
+});
+
+test('changing a wrapper leaves the wrapped Lua value as it was', () => {
+  const data = userdata('vector3', { x: 1, y: 2, z: 3 });
+  const v = new vmath.Vector3(data);
+  v.x = 10;
+  expect(data.x).toBe(1);
+  const written = v.data;
+  expect(written).not.toBe(data);
+  expect(written.x).toBe(10);
+});
+
+test('data is read-only, as every read makes a new Lua value', () => {
+  const v = new vmath.Vector3(1, 2, 3);
+  const m = new vmath.Matrix4();
+  // @ts-expect-error writes to a new Lua value would be lost
+  v.data.x = 10;
+  // @ts-expect-error the columns of a matrix are read-only too
+  m.data.c0.x = 10;
+  expect(v.x).toBe(1);
+  expect(m.m00).toBe(1);
+});
+
+test('matrix inverses undo the transform', () => {
+  const m = vmath.Matrix4.mul(
+    vmath.Matrix4.translation(new vmath.Vector3(1, 2, 3)),
+    vmath.Matrix4.axis_angle(new vmath.Vector3(0, 0, 1), 0.5)
+  );
+  [m.inv(), m.ortho_inv()].forEach((inv) => {
+    const identity = vmath.Matrix4.mul(m, inv);
+    [identity.c0, identity.c1, identity.c2, identity.c3].forEach((column, col) => {
+      [column.x, column.y, column.z, column.w].forEach((value, row) => expect(value).toBeCloseTo(row === col ? 1 : 0));
+    });
+  });
+});
+
+test('look_at moves the eye to the origin', () => {
+  const view = vmath.Matrix4.look_at(new vmath.Vector3(0, 0, 10), new vmath.Vector3(), new vmath.Vector3(0, 1, 0));
+  const eye = vmath.Matrix4.mul(view, new vmath.Vector4(0, 0, 10, 1));
+  expect([eye.x, eye.y, eye.z]).toEqual([0, 0, 0]);
+});
+
+test('matrices are converted to Lua values column by column', () => {
+  const m = vmath.Matrix4.translation(new vmath.Vector3(1, 2, 3));
+  const data = m.data;
+  expect([data.m03, data.m13, data.m23, data.m33]).toEqual([1, 2, 3, 1]);
+  expect(new vmath.Matrix4(data).m13).toBe(2);
+});
+
+test('in-place operations modify and return the value', () => {
+  const v = new vmath.Vector3(3, 0, 4);
+  expect(v.addInPlace(new vmath.Vector3(1, 1, 1)).subInPlace(new vmath.Vector3(1, 1, 1)).scaleInPlace(2)).toBe(v);
+  expect([v.x, v.y, v.z]).toEqual([6, 0, 8]);
+  v.normalizeInPlace();
+  expect(v.length()).toBeCloseTo(1);
+  expect(new vmath.Vector4().set(1, 2, 3, 4).setFrom(userdata('vector4', { x: 5, y: 6, z: 7, w: 8 })).w).toBe(8);
+});
+
+test('in-place products match the operators', () => {
+  const q = vmath.Quaternion.rotation_x(0.3);
+  const r = vmath.Quaternion.rotation_y(0.4);
+  const product = vmath.mul(q, r);
+  expect(new vmath.Quaternion(q).mulInPlace(r)).toEqual(product);
+  const m = vmath.Matrix4.from_quat(q);
+  const n = vmath.Matrix4.translation(new vmath.Vector3(1, 2, 3));
+  const columns = [n.c0, n.c1, n.c2, n.c3].map((column) => vmath.Matrix4.mul(m, column));
+  expect(new vmath.Matrix4(m).mulInPlace(n)).toEqual(new vmath.Matrix4(columns[0], columns[1], columns[2], columns[3]));
+  expect(new vmath.Matrix4().scaleInPlace(2).addInPlace(new vmath.Matrix4()).m11).toBe(3);
+});
+
+test('temporary values are reused after a reset', () => {
+  vmath.temp.reset();
+  const a = vmath.temp.vector3(1, 2, 3);
+  const b = vmath.temp.vector3();
+  expect(b).not.toBe(a);
+  expect([b.x, b.y, b.z]).toEqual([0, 0, 0]);
+  vmath.temp.reset();
+  expect(vmath.temp.vector3()).toBe(a);
+  expect(a.x).toBe(0);
+  expect(vmath.temp.quat().w).toBe(1);
+  expect(vmath.temp.matrix4().scaleInPlace(2).m00).toBe(2);
+  vmath.temp.reset();
+  expect(vmath.temp.matrix4().m00).toBe(1);
+});
+
+test('2D vectors have the full operator set', () => {
+  const v = vmath.add(new vmath.Vector2(1, 2), vmath.mul(2, new vmath.Vector2(1, 1)));
+  expect([v.x, v.y]).toEqual([3, 4]);
+  expect(v.length()).toBe(5);
+  expect(vmath.Vector2.cross(new vmath.Vector2(1, 0), new vmath.Vector2(0, 1))).toBe(1);
+  const rotated = new vmath.Vector2(1, 0).rotate(Math.PI / 2);
+  expect(rotated.x).toBeCloseTo(0);
+  expect(rotated.y).toBeCloseTo(1);
+  expect(() => vmath.add(new vmath.Vector2(), new vmath.Vector3() as any)).toThrow(TypeError);
+});
+
+test('2D vectors convert to and from Vector3', () => {
+  const v = new vmath.Vector2(new vmath.Vector3(1, 2, 3));
+  expect([v.x, v.y]).toEqual([1, 2]);
+  expect(v.toVector3(5)).toEqual(new vmath.Vector3(1, 2, 5));
+  expect(v.data).toEqual({ x: 1, y: 2, z: 0 });
+});
+
+test('swizzles read and write components', () => {
+  const v = new vmath.Vector4(1, 2, 3, 4);
+  expect(v.xy).toEqual(new vmath.Vector2(1, 2));
+  expect(v.xz).toEqual(new vmath.Vector2(1, 3));
+  expect(v.xyz).toEqual(new vmath.Vector3(1, 2, 3));
+  v.xz = new vmath.Vector2(5, 6);
+  expect([v.x, v.y, v.z, v.w]).toEqual([5, 2, 6, 4]);
+  const q = new vmath.Quaternion(1, 2, 3, 4);
+  q.xyz = new vmath.Vector3();
+  expect([q.x, q.y, q.z, q.w]).toEqual([0, 0, 0, 4]);
+});
+
+test('vectors of any size have index access and iteration', () => {
+  const v = vmath.vector([1, 2, 3]);
+  expect(v.size).toBe(3);
+  expect(v.set(1, 5).get(1)).toBe(5);
+  expect(() => v.set(3, 0)).toThrow(RangeError);
+  expect(() => v.get(3)).toThrow(RangeError);
+  expect(() => v.get(-1)).toThrow(RangeError);
+  const seen: number[] = [];
+  v.forEach((value) => seen.push(value));
+  expect(seen).toEqual([1, 5, 3]);
+  expect(v.map((value) => value * 2).toArray()).toEqual([2, 10, 6]);
+  expect(vmath.vector(2).toArray()).toEqual([0, 0]);
+  v.data;
+  expect(fake.last_call('vmath.vector').args).toEqual([{ 1: 1, 2: 5, 3: 3 }]);
+});
+
+test('Lua vectors of any size are wrapped', () => {
+  const data = userdata('vector', { 1: 0, 2: 0.5, 3: 1 });
+  expect(new vmath.VectorN(data).toArray()).toEqual([0, 0.5, 1]);
+  const converted = from_lua(data);
+  expect(converted).toBeInstanceOf(vmath.VectorN);
+  expect(converted.toArray()).toEqual([0, 0.5, 1]);
+});
+
+test('matrices compose and decompose transforms', () => {
+  const rotation = vmath.Quaternion.axis_angle(new vmath.Vector3(1, 2, 3).normalize(), 0.8);
+  const m = vmath.Matrix4.compose(new vmath.Vector3(1, 2, 3), rotation, new vmath.Vector3(2, 3, 4));
+  const { position, rotation: r, scale } = m.decompose();
+  expect([position.x, position.y, position.z]).toEqual([1, 2, 3]);
+  [scale.x - 2, scale.y - 3, scale.z - 4].forEach((d) => expect(d).toBeCloseTo(0));
+  expect(Math.abs(r.x * rotation.x + r.y * rotation.y + r.z * rotation.z + r.w * rotation.w)).toBeCloseTo(1);
+  expect(vmath.Matrix4.compose(position, r, scale).equals(m)).toBe(true);
+  expect(m.determinant()).toBeCloseTo(24);
+});
+
+test('mirroring transforms decompose with a negative x scale', () => {
+  const m = vmath.Matrix4.compose(new vmath.Vector3(), new vmath.Quaternion(), new vmath.Vector3(1, -1, 1));
+  expect(m.determinant()).toBeCloseTo(-1);
+  const { rotation, scale } = m.decompose();
+  expect(vmath.Matrix4.compose(new vmath.Vector3(), rotation, scale).equals(m)).toBe(true);
+});
+
+test('matrices transform points and directions', () => {
+  const m = vmath.Matrix4.compose(new vmath.Vector3(10, 0, 0), vmath.Quaternion.rotation_z(Math.PI / 2), 2);
+  const point = m.transformPoint(new vmath.Vector3(1, 0, 0));
+  const direction = m.transformDirection(new vmath.Vector3(1, 0, 0));
+  expect(point.x).toBeCloseTo(10);
+  expect(point.y).toBeCloseTo(2);
+  expect(direction.x).toBeCloseTo(0);
+  expect(direction.y).toBeCloseTo(2);
+});
+
+test('matrices convert to and from column-major arrays', () => {
+  const m = vmath.Matrix4.translation(new vmath.Vector3(1, 2, 3));
+  const array = m.toArray();
+  expect(array.slice(12)).toEqual([1, 2, 3, 1]);
+  expect(vmath.Matrix4.fromArray([0, 0].concat(array), 2)).toEqual(m);
+  expect(m.transpose().row(3)).toEqual(new vmath.Vector4(1, 2, 3, 1));
+  expect(m.transpose().c3).toEqual(new vmath.Vector4(0, 0, 0, 1));
+  expect(m.row(0)).toEqual(new vmath.Vector4(1, 0, 0, 1));
+  expect(new vmath.Matrix4().setRow(1, new vmath.Vector4(5, 6, 7, 8)).c1.y).toBe(6);
+  expect(m.equals(vmath.Matrix4.translation(new vmath.Vector3(1, 2, 3.1)))).toBe(false);
+  expect(m.equals(vmath.Matrix4.translation(new vmath.Vector3(1, 2, 3.1)), 0.2)).toBe(true);
+});
+
+test('column setters copy the components of the vector', () => {
+  const m = new vmath.Matrix4();
+  const column = new vmath.Vector4(1, 2, 3, 1);
+  m.c3 = column;
+  column.x = 10;
+  expect([m.m03, m.m13, m.m23, m.m33]).toEqual([1, 2, 3, 1]);
+  expect(m.data.c3).toEqual({ x: 1, y: 2, z: 3, w: 1 });
+});
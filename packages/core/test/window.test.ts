@@ -0,0 +1,35 @@
+import { fake } from '../src/testing';
+import * as window from '../src/window';
+
+beforeEach(() => fake.reset());
+
+test('set_listener translates the event constants', () => {
+  const listener = jest.fn();
+  window.set_listener(listener);
+  fake.last_call('window.set_listener').args[0]({}, window.WINDOW_EVENT.WINDOW_EVENT_RESIZED, { width: 640, height: 480 });
+  expect(listener).toHaveBeenCalledWith({}, { type: 'resized', event: 'window.WINDOW_EVENT_RESIZED', width: 640, height: 480 });
+});
+
+test('set_listener passes unknown events through', () => {
+  const listener = jest.fn();
+  window.set_listener(listener);
+  fake.last_call('window.set_listener').args[0]({}, 'window.WINDOW_EVENT_NEW', { value: 1 });
+  expect(listener).toHaveBeenCalledWith({}, { type: 'unknown', event: 'window.WINDOW_EVENT_NEW', data: { value: 1 } });
+});
+
+test('set_listener removes the listener', () => {
+  window.set_listener();
+  expect(fake.last_call('window.set_listener').args).toEqual([undefined]);
+});
+
+test('get_size returns the width and height', () => {
+  fake.returns('window.get_size', [960, 640]);
+  expect(window.get_size()).toEqual([960, 640]);
+  expect(fake.last_call('window.get_size').nret).toBe(2);
+});
+
+test('dim mode is passed through', () => {
+  window.set_dim_mode(window.DIMMING.DIMMING_OFF);
+  fake.returns('window.get_dim_mode', window.DIMMING.DIMMING_OFF);
+  expect(window.get_dim_mode()).toBe(window.DIMMING.DIMMING_OFF);
+});